@@ -0,0 +1,177 @@
+import express from "express";
+import {
+  ApiKeyError,
+  createApiKey,
+  parseApiPlan,
+  parsePermissions,
+  toApiKeyResponse,
+} from "./apiKeys";
+import { requirePermission } from "./auth";
+import {
+  deleteApiPlan,
+  getApiKey,
+  getApiKeys,
+  getApiPlan,
+  getApiPlans,
+  getApiUsage,
+  saveApiPlan,
+  updateApiKey,
+} from "./db";
+import { createLogger } from "./logger";
+import { ApiKey } from "./types";
+
+const log = createLogger("admin");
+
+// Usage history served when no range is given
+const DEFAULT_USAGE_DAYS = 30;
+
+// Plans, keys and usage, for API keys with the admin permission. Mounted on
+// /api/admin by the API server.
+export const adminRouter = express.Router();
+
+adminRouter.use(requirePermission("admin"));
+
+const sendError = (res: express.Response, error: unknown, what: string) => {
+  if (error instanceof ApiKeyError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  log.error(`Error ${what}`, { error });
+  res.status(500).json({ error: "Internal server error" });
+};
+
+adminRouter.get("/plans", async (req, res) => {
+  try {
+    res.json(await getApiPlans());
+  } catch (error) {
+    sendError(res, error, "getting API plans");
+  }
+});
+
+// Create or replace a plan, keys on it get the change within API_KEY_CACHE_MS
+adminRouter.put("/plans/:id", async (req, res) => {
+  try {
+    const plan = parseApiPlan(req.params.id, req.body);
+    await saveApiPlan({ ...plan });
+    res.json(plan);
+  } catch (error) {
+    sendError(res, error, "saving API plan");
+  }
+});
+
+adminRouter.delete("/plans/:id", async (req, res) => {
+  try {
+    if (!(await getApiPlan(req.params.id))) {
+      res.status(404).json({ error: "Plan not found" });
+      return;
+    }
+    if (!(await deleteApiPlan(req.params.id))) {
+      res.status(409).json({ error: "Plan is still used by API keys" });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, "deleting API plan");
+  }
+});
+
+adminRouter.get("/keys", async (req, res) => {
+  try {
+    res.json((await getApiKeys()).map(toApiKeyResponse));
+  } catch (error) {
+    sendError(res, error, "getting API keys");
+  }
+});
+
+// The key itself is only ever returned here
+adminRouter.post("/keys", async (req, res) => {
+  const { name, planId, permissions = [] } = req.body || {};
+  if (typeof name !== "string" || !name) {
+    res.status(400).json({ error: "name must be a non-empty string" });
+    return;
+  }
+  if (typeof planId !== "string") {
+    res.status(400).json({ error: "planId must be a plan id" });
+    return;
+  }
+
+  try {
+    res
+      .status(201)
+      .json(await createApiKey(name, planId, parsePermissions(permissions)));
+  } catch (error) {
+    sendError(res, error, "creating API key");
+  }
+});
+
+// Change a key's name, plan or permissions, or deactivate it with
+// active: false
+adminRouter.patch("/keys/:id", async (req, res) => {
+  const { name, planId, permissions, active } = req.body || {};
+  const changes: Partial<ApiKey> = {};
+
+  try {
+    if (name !== undefined) {
+      if (typeof name !== "string" || !name) {
+        throw new ApiKeyError("name must be a non-empty string", 400);
+      }
+      changes.name = name;
+    }
+    if (planId !== undefined) {
+      if (typeof planId !== "string" || !(await getApiPlan(planId))) {
+        throw new ApiKeyError(`Plan ${planId} does not exist`, 400);
+      }
+      changes.planId = planId;
+    }
+    if (permissions !== undefined) {
+      changes.permissions = parsePermissions(permissions);
+    }
+    if (active !== undefined) {
+      if (typeof active !== "boolean") {
+        throw new ApiKeyError("active must be true or false", 400);
+      }
+      changes.active = active;
+    }
+
+    const apiKey = await updateApiKey(req.params.id, changes);
+    if (!apiKey) {
+      res.status(404).json({ error: "API key not found" });
+      return;
+    }
+    res.json(toApiKeyResponse(apiKey));
+  } catch (error) {
+    sendError(res, error, "updating API key");
+  }
+});
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Requests per key and UTC day, with the routes they went to
+adminRouter.get("/usage", async (req, res) => {
+  const toDay =
+    typeof req.query.to === "string"
+      ? req.query.to
+      : new Date().toISOString().slice(0, 10);
+  const fromDay =
+    typeof req.query.from === "string"
+      ? req.query.from
+      : new Date(Date.now() - (DEFAULT_USAGE_DAYS - 1) * 24 * 60 * 60 * 1000)
+          .toISOString()
+          .slice(0, 10);
+  if (!DAY_PATTERN.test(fromDay) || !DAY_PATTERN.test(toDay)) {
+    res.status(400).json({ error: "from and to must be YYYY-MM-DD days" });
+    return;
+  }
+  const keyId =
+    typeof req.query.keyId === "string" ? req.query.keyId : undefined;
+
+  try {
+    if (keyId && keyId !== "anonymous" && !(await getApiKey(keyId))) {
+      res.status(404).json({ error: "API key not found" });
+      return;
+    }
+    res.json(await getApiUsage({ keyId, fromDay, toDay }));
+  } catch (error) {
+    sendError(res, error, "getting API usage");
+  }
+});
@@ -0,0 +1,296 @@
+import { createHash, randomBytes } from "crypto";
+import {
+  addApiUsage,
+  getApiKeyByHash,
+  getApiPlan,
+  getApiUsageCount,
+  saveApiKey,
+} from "./db";
+import { createLogger } from "./logger";
+import { ApiKey, ApiKeyPermission, ApiPlan } from "./types";
+
+const log = createLogger("apiKeys");
+
+// Requests without a key, limited per IP; ANONYMOUS_ACCESS=false turns them
+// away altogether
+const ANONYMOUS_ACCESS = process.env.ANONYMOUS_ACCESS !== "false";
+const ANONYMOUS_REQUESTS_PER_MINUTE = parseInt(
+  process.env.ANONYMOUS_REQUESTS_PER_MINUTE || "60"
+);
+// Path prefixes open to anonymous requests, comma separated
+const ANONYMOUS_ROUTES = (
+  process.env.ANONYMOUS_ROUTES ||
+  "/api/status,/api/utxos,/api/utxo,/api/balance,/api/txs,/api/op-returns,/api/xpub,/api/events"
+)
+  .split(",")
+  .map((route) => route.trim())
+  .filter((route) => route.length > 0);
+// How long a looked up key is trusted before it is read again, so changed
+// plans and deactivated keys take effect within this long
+const API_KEY_CACHE_MS = parseInt(process.env.API_KEY_CACHE_MS || "30000");
+// How often usage counted in memory is added to api_usage; quotas are
+// enforced on the counts as of the last flush on every API process
+const API_USAGE_FLUSH_MS = parseInt(process.env.API_USAGE_FLUSH_MS || "5000");
+// Looked up keys kept, unknown keys included, before the cache starts over
+const MAX_CACHED_KEYS = 10000;
+
+export const API_KEY_PERMISSIONS: ApiKeyPermission[] = ["broadcast", "admin"];
+
+// Routes that take a permission instead of being part of a plan
+const PERMISSION_ROUTES: [string, ApiKeyPermission][] = [
+  ["/api/send-transaction", "broadcast"],
+  ["/api/admin", "admin"],
+];
+
+// Who is making a request: a key and its plan, or an anonymous client
+export type ApiClient = {
+  keyId: string | null;
+  plan: ApiPlan;
+  permissions: ApiKeyPermission[];
+};
+
+export const anonymousClient: ApiClient = {
+  keyId: null,
+  plan: {
+    id: "anonymous",
+    requestsPerMinute: ANONYMOUS_REQUESTS_PER_MINUTE,
+    dailyQuota: null,
+    routes: ANONYMOUS_ROUTES,
+  },
+  permissions: [],
+};
+
+export const isAnonymousAccessAllowed = () => ANONYMOUS_ACCESS;
+
+// A plan or key that can't be saved as given
+export class ApiKeyError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "ApiKeyError";
+  }
+}
+
+const hashApiKey = (key: string) =>
+  createHash("sha256").update(key).digest("hex");
+
+// Express matches routes case-insensitively, so prefixes have to as well
+const matchesRoute = (path: string, prefix: string) => {
+  if (prefix === "*") return true;
+  const lowerPath = path.toLowerCase();
+  const lowerPrefix = prefix.toLowerCase();
+  return lowerPath === lowerPrefix || lowerPath.startsWith(`${lowerPrefix}/`);
+};
+
+// The permission a path needs, if it is one of the permission routes
+export const getRequiredPermission = (path: string) =>
+  PERMISSION_ROUTES.find(([prefix]) => matchesRoute(path, prefix))?.[1];
+
+export const isRouteAllowed = (plan: ApiPlan, path: string) =>
+  plan.routes.some((prefix) => matchesRoute(path, prefix));
+
+const isCount = (value: unknown, min: number) =>
+  Number.isInteger(value) && (value as number) >= min;
+
+// Check a plan as the admin API or the CLI got it
+export const parseApiPlan = (id: string, input: any): ApiPlan => {
+  const { requestsPerMinute, dailyQuota = null, routes = ["*"] } = input || {};
+
+  if (!/^[a-z0-9_-]{1,64}$/i.test(id)) {
+    throw new ApiKeyError(
+      "Plan id must be 1 to 64 letters, digits, - or _",
+      400
+    );
+  }
+  if (!isCount(requestsPerMinute, 1)) {
+    throw new ApiKeyError("requestsPerMinute must be a positive integer", 400);
+  }
+  if (dailyQuota !== null && !isCount(dailyQuota, 1)) {
+    throw new ApiKeyError("dailyQuota must be a positive integer or null", 400);
+  }
+  if (
+    !Array.isArray(routes) ||
+    routes.length === 0 ||
+    !routes.every(
+      (route) =>
+        typeof route === "string" && (route === "*" || route.startsWith("/"))
+    )
+  ) {
+    throw new ApiKeyError(
+      'routes must be a list of path prefixes starting with /, or "*"',
+      400
+    );
+  }
+
+  return { id, requestsPerMinute, dailyQuota, routes };
+};
+
+export const parsePermissions = (permissions: unknown) => {
+  if (
+    !Array.isArray(permissions) ||
+    !permissions.every((permission) => API_KEY_PERMISSIONS.includes(permission))
+  ) {
+    throw new ApiKeyError(
+      `permissions must be a list of ${API_KEY_PERMISSIONS.join(", ")}`,
+      400
+    );
+  }
+  return Array.from(new Set(permissions)) as ApiKeyPermission[];
+};
+
+// Keys are only shown once, when they are created
+export const toApiKeyResponse = ({ keyHash, ...apiKey }: ApiKey) => apiKey;
+
+// Create a key on an existing plan, returns it with the key itself
+export const createApiKey = async (
+  name: string,
+  planId: string,
+  permissions: ApiKeyPermission[]
+) => {
+  if (!(await getApiPlan(planId))) {
+    throw new ApiKeyError(`Plan ${planId} does not exist`, 400);
+  }
+
+  const key = `utxo_${randomBytes(24).toString("hex")}`;
+  const apiKey: ApiKey = {
+    id: randomBytes(8).toString("hex"),
+    name,
+    keyHash: hashApiKey(key),
+    prefix: key.slice(0, 12),
+    planId,
+    permissions,
+    active: true,
+    createdAt: new Date(),
+  };
+  await saveApiKey({ ...apiKey });
+
+  return { ...toApiKeyResponse(apiKey), key };
+};
+
+type CachedKey = { client: ApiClient | null; cachedAt: number };
+
+const cachedKeys = new Map<string, CachedKey>();
+
+// The client a key belongs to, null for unknown or deactivated keys and keys
+// whose plan is gone
+export const resolveApiKey = async (key: string) => {
+  const keyHash = hashApiKey(key);
+  const cached = cachedKeys.get(keyHash);
+  if (cached && Date.now() - cached.cachedAt < API_KEY_CACHE_MS) {
+    return cached.client;
+  }
+
+  const apiKey = await getApiKeyByHash(keyHash);
+  const plan = apiKey?.active ? await getApiPlan(apiKey.planId) : null;
+  if (apiKey?.active && !plan) {
+    log.warn("API key is on a plan that is gone", {
+      keyId: apiKey.id,
+      planId: apiKey.planId,
+    });
+  }
+  const client =
+    apiKey && plan
+      ? { keyId: apiKey.id, plan, permissions: apiKey.permissions }
+      : null;
+
+  if (cachedKeys.size >= MAX_CACHED_KEYS) cachedKeys.clear();
+  cachedKeys.set(keyHash, { client, cachedAt: Date.now() });
+  return client;
+};
+
+type Usage = {
+  keyId: string;
+  day: string;
+  stored: number | null; // the day's count in api_usage as of the last flush
+  count: number; // served since then
+  rejected: number;
+  routes: Map<string, number>;
+};
+
+// Requests counted since the last flush, by day and key
+const usage = new Map<string, Usage>();
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const getUsage = (keyId: string) => {
+  const day = today();
+  const id = `${day}:${keyId}`;
+  if (!usage.has(id)) {
+    usage.set(id, {
+      keyId,
+      day,
+      stored: null,
+      count: 0,
+      rejected: 0,
+      routes: new Map(),
+    });
+  }
+  return usage.get(id)!;
+};
+
+// Requests made with the key today, on every API process as of their last
+// flush and on this one until now
+export const getRequestsToday = async (keyId: string) => {
+  const keyUsage = getUsage(keyId);
+  keyUsage.stored ??= await getApiUsageCount(keyId, keyUsage.day);
+  return keyUsage.stored + keyUsage.count;
+};
+
+export const recordRequest = (keyId: string | null, route: string) => {
+  const keyUsage = getUsage(keyId ?? "anonymous");
+  keyUsage.count++;
+  keyUsage.routes.set(route, (keyUsage.routes.get(route) || 0) + 1);
+};
+
+export const recordRejectedRequest = (keyId: string) => {
+  getUsage(keyId).rejected++;
+};
+
+// Add the counted requests to api_usage; counts that fail to be written are
+// kept for the next flush
+const flushUsage = async () => {
+  for (const [id, keyUsage] of usage) {
+    const { count, rejected, routes } = keyUsage;
+    if (count === 0 && rejected === 0) {
+      if (keyUsage.day !== today()) usage.delete(id);
+      continue;
+    }
+
+    keyUsage.count = 0;
+    keyUsage.rejected = 0;
+    keyUsage.routes = new Map();
+    try {
+      keyUsage.stored = await addApiUsage(
+        keyUsage.keyId,
+        keyUsage.day,
+        count,
+        rejected,
+        Object.fromEntries(routes)
+      );
+    } catch (error) {
+      log.error("Error saving API usage", { keyId: keyUsage.keyId, error });
+      keyUsage.count += count;
+      keyUsage.rejected += rejected;
+      routes.forEach((routeCount, route) => {
+        keyUsage.routes.set(
+          route,
+          (keyUsage.routes.get(route) || 0) + routeCount
+        );
+      });
+    }
+  }
+};
+
+// Flush usage every API_USAGE_FLUSH_MS, returns the function that stops and
+// flushes once more
+export const startUsageFlush = () => {
+  let flushing = Promise.resolve();
+  const timer = setInterval(() => {
+    flushing = flushing.then(flushUsage);
+  }, API_USAGE_FLUSH_MS);
+
+  return async () => {
+    clearInterval(timer);
+    await flushing;
+    await flushUsage();
+  };
+};
@@ -0,0 +1,124 @@
+import { RequestHandler } from "express";
+import { ipKeyGenerator, rateLimit } from "express-rate-limit";
+import {
+  anonymousClient,
+  ApiClient,
+  getRequestsToday,
+  getRequiredPermission,
+  isAnonymousAccessAllowed,
+  isRouteAllowed,
+  recordRejectedRequest,
+  recordRequest,
+  resolveApiKey,
+} from "./apiKeys";
+import { createLogger } from "./logger";
+import { ApiKeyPermission } from "./types";
+
+const log = createLogger("auth");
+
+// The client making the request, set by authenticate
+export const getClient = (res: { locals: Record<string, any> }) =>
+  res.locals.client as ApiClient;
+
+// Identify the client by its X-API-Key header, or the apiKey query parameter
+// for clients that can't set headers such as EventSource
+export const authenticate: RequestHandler = async (req, res, next) => {
+  const key =
+    req.get("X-API-Key") ??
+    (typeof req.query.apiKey === "string" ? req.query.apiKey : undefined);
+
+  if (!key) {
+    if (!isAnonymousAccessAllowed()) {
+      res.status(401).json({ error: "An API key is required" });
+      return;
+    }
+    res.locals.client = anonymousClient;
+    next();
+    return;
+  }
+
+  try {
+    const client = await resolveApiKey(key);
+    if (!client) {
+      res.status(401).json({ error: "Invalid API key" });
+      return;
+    }
+    res.locals.client = client;
+    next();
+  } catch (error) {
+    log.error("Error checking API key", { error });
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Requests per minute of the client's plan, per key or, without one, per IP.
+// Counted by each API process on its own.
+export const rateLimitByPlan = rateLimit({
+  windowMs: 60 * 1000,
+  limit: (req, res) => getClient(res).plan.requestsPerMinute,
+  keyGenerator: (req, res) =>
+    getClient(res).keyId ?? ipKeyGenerator(req.ip || ""),
+  standardHeaders: true, // Send standardized rate limit info in headers
+  legacyHeaders: false, // Disable old X-RateLimit-* headers
+  validate: false, // Disable strict validation for proxy headers
+  message: { error: "Too many requests, slow down" },
+});
+
+// Guard on the routes themselves, in case a path gets past the prefixes
+// authorize checks
+export const requirePermission =
+  (permission: ApiKeyPermission): RequestHandler =>
+  (req, res, next) => {
+    if (!getClient(res)?.permissions.includes(permission)) {
+      res.status(403).json({
+        error: `This route needs an API key with the ${permission} permission`,
+      });
+      return;
+    }
+    next();
+  };
+
+// Check the route against the plan, or the permission it takes, and the
+// daily quota, then count the request once it is answered
+export const authorize: RequestHandler = async (req, res, next) => {
+  const client = getClient(res);
+  const permission = getRequiredPermission(req.path);
+
+  if (permission && !client.permissions.includes(permission)) {
+    res.status(403).json({
+      error: `This route needs an API key with the ${permission} permission`,
+    });
+    return;
+  }
+  if (!permission && !isRouteAllowed(client.plan, req.path)) {
+    res.status(403).json({
+      error: client.keyId
+        ? "This route is not part of your plan"
+        : "This route needs an API key",
+    });
+    return;
+  }
+
+  const { dailyQuota } = client.plan;
+  if (client.keyId && dailyQuota !== null) {
+    try {
+      if ((await getRequestsToday(client.keyId)) >= dailyQuota) {
+        recordRejectedRequest(client.keyId);
+        res.status(429).json({ error: "Daily quota exceeded", dailyQuota });
+        return;
+      }
+    } catch (error) {
+      log.error("Error checking API quota", { keyId: client.keyId, error });
+      res.status(500).json({ error: "Internal server error" });
+      return;
+    }
+  }
+
+  res.on("close", () => {
+    const route = req.route
+      ? `${req.method} ${req.baseUrl}${req.route.path}`
+      : "unmatched";
+    recordRequest(client.keyId, route);
+  });
+  next();
+};
@@ -0,0 +1,95 @@
+import { AddressBalance, UTXO } from "./types";
+
+// Increments to apply to the stored balances of each touched address
+export type BalanceChange = Omit<
+  AddressBalance,
+  "address" | "firstSeenHeight" | "lastSeenHeight"
+> & {
+  firstSeenHeight?: number;
+  lastSeenHeight?: number;
+};
+
+export type BalanceChanges = Map<string, BalanceChange>;
+
+export const createBalanceChanges = (): BalanceChanges => new Map();
+
+const createBalanceChange = (): BalanceChange => ({
+  confirmed: 0,
+  unconfirmedIncoming: 0,
+  unconfirmedOutgoing: 0,
+  utxoCount: 0,
+  totalReceived: 0,
+  totalSent: 0,
+});
+
+// Outputs without a single address (bare multisig, non-standard scripts)
+// count towards no balance; their changes go nowhere
+const getChange = (changes: BalanceChanges, address?: string) => {
+  if (!address) return createBalanceChange();
+
+  let change = changes.get(address);
+  if (!change) {
+    change = createBalanceChange();
+    changes.set(address, change);
+  }
+  return change;
+};
+
+const seenAt = (change: BalanceChange, height: number) => {
+  change.firstSeenHeight = Math.min(change.firstSeenHeight ?? height, height);
+  change.lastSeenHeight = Math.max(change.lastSeenHeight ?? height, height);
+};
+
+// A mempool transaction created the output
+export const recordMempoolOutput = (changes: BalanceChanges, utxo: UTXO) => {
+  getChange(changes, utxo.address).unconfirmedIncoming += utxo.value;
+};
+
+// A block created the output, or confirmed it if it was seen in the mempool
+export const recordBlockOutput = (
+  changes: BalanceChanges,
+  utxo: UTXO,
+  blockHeight: number,
+  fromMempool: boolean
+) => {
+  const change = getChange(changes, utxo.address);
+  if (fromMempool) change.unconfirmedIncoming -= utxo.value;
+  change.confirmed += utxo.value;
+  change.utxoCount += 1;
+  change.totalReceived += utxo.value;
+  seenAt(change, blockHeight);
+};
+
+// A mempool transaction started (1) or stopped (-1) spending the output
+export const recordPendingSpend = (
+  changes: BalanceChanges,
+  utxo: UTXO,
+  direction: 1 | -1
+) => {
+  getChange(changes, utxo.address).unconfirmedOutgoing +=
+    direction * utxo.value;
+};
+
+// An unconfirmed output disappeared with its dropped mempool transaction
+export const recordMempoolOutputRemoved = (
+  changes: BalanceChanges,
+  utxo: UTXO
+) => {
+  const change = getChange(changes, utxo.address);
+  change.unconfirmedIncoming -= utxo.value;
+  if (utxo.status === "pending") change.unconfirmedOutgoing -= utxo.value;
+};
+
+// A block spent the output; utxo is its state before the spend
+export const recordBlockSpend = (
+  changes: BalanceChanges,
+  utxo: UTXO,
+  blockHeight: number
+) => {
+  const change = getChange(changes, utxo.address);
+  if (utxo.status === "pending") change.unconfirmedOutgoing -= utxo.value;
+  change.confirmed -= utxo.value;
+  change.utxoCount -= 1;
+  change.totalSent += utxo.value;
+  seenAt(change, blockHeight);
+};
@@ -0,0 +1,93 @@
+import { getBlock } from "./rpc";
+import { getOpReturnPayload, parseScriptPubKey } from "./scripts";
+import { OpReturn, ParsedBlock, UTXO, UTXOSpend } from "./types";
+
+// Blocks fetched in parallel, and how far ahead of the apply cursor they may get
+export const INDEXER_CONCURRENCY = parseInt(
+  process.env.INDEXER_CONCURRENCY || "4"
+);
+export const INDEXER_PREFETCH_DEPTH = parseInt(
+  process.env.INDEXER_PREFETCH_DEPTH || "20"
+);
+// Keep the payloads of OP_RETURN outputs, searchable by prefix
+const INDEX_OP_RETURN = process.env.INDEX_OP_RETURN === "true";
+
+// Turn a decoded block into the spends and outputs to apply. This runs in the
+// prefetch workers, so it must not depend on the UTXO set.
+export const parseBlock = (
+  blockData: any,
+  blockHeight: number
+): ParsedBlock => {
+  //array of decoded transactions in the block
+  const txs = blockData.tx;
+
+  const inputs: UTXOSpend[] = [];
+  const outputs: UTXO[] = [];
+  const opReturns: OpReturn[] = [];
+
+  for (const [index, txData] of txs.entries()) {
+    const tx = txData.txid;
+
+    // For non-coinbase transactions, process inputs (spent UTXOs)
+    // Coinbase transactions (index 0) don't have valid inputs to spend
+    if (index !== 0 && txData.vin && txData.vin.length > 0) {
+      inputs.push(
+        ...txData.vin
+          .map((input: any, inputIndex: number) => {
+            if (!input.txid || input.vout === undefined) {
+              return null; // Filter out coinbase inputs
+            }
+            return {
+              id: `${input.txid}:${input.vout}`,
+              spentTxid: tx,
+              spentIndex: inputIndex,
+            };
+          })
+          .filter((input: UTXOSpend | null) => input !== null)
+      );
+    }
+
+    // Process outputs for ALL transactions including coinbase
+    // These are the new UTXOs being created
+    for (const output of txData.vout) {
+      const id = `${tx}:${output.n}`;
+      // Insight-enabled nodes report valueSat, plain getblock valueZat
+      const value = output.valueSat ?? output.valueZat;
+      const scriptInfo = parseScriptPubKey(output.scriptPubKey);
+
+      // OP_RETURN outputs can never be spent, they are not UTXOs
+      if (scriptInfo.scriptType === "nulldata") {
+        const payload = getOpReturnPayload(scriptInfo.script);
+        if (INDEX_OP_RETURN && payload !== null) {
+          opReturns.push({ id, blockHeight, value, payload });
+        }
+        continue;
+      }
+
+      outputs.push({
+        value,
+        id,
+        ...scriptInfo,
+        blockHeight: blockHeight,
+        confirmed: true, // Block UTXOs are confirmed
+        ...(index === 0 && { coinbase: true }),
+        status: "unspent",
+      });
+    }
+  }
+
+  return {
+    height: blockHeight,
+    hash: blockData.hash,
+    previousBlockHash: blockData.previousblockhash,
+    time: blockData.time,
+    inputs,
+    outputs,
+    opReturns,
+  };
+};
+
+export const fetchBlock = async (blockHeight: number) => {
+  const blockData = await getBlock(blockHeight);
+  return parseBlock(blockData, blockHeight);
+};
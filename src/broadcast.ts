@@ -0,0 +1,245 @@
+import { address, bitgo, classify } from "@bitgo/utxo-lib";
+import { zip317Fee } from "./coinSelection";
+import { getUTXOsByIds } from "./db";
+import { network } from "./network";
+import { decodeRawTransaction } from "./rpc";
+import { RpcNodeError } from "./rpcClient";
+
+// Fees above this are almost certainly a mistake (e.g. a forgotten change
+// output), in zatoshis
+const MAX_BROADCAST_FEE = parseInt(process.env.MAX_BROADCAST_FEE || "10000000");
+
+// The transaction was refused before it reached the node
+export class TransactionRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "TransactionRejectedError";
+  }
+}
+
+const varIntSize = (value: number) =>
+  value < 0xfd ? 1 : value <= 0xffff ? 3 : 5;
+
+const invalidTransaction = (error: unknown) =>
+  new TransactionRejectedError(
+    `Could not decode transaction: ${(error as Error).message}`,
+    400
+  );
+
+// What the checks need to know about a transaction, however it was decoded
+type DecodedTransaction = {
+  txid: string;
+  coinbase: boolean;
+  inputIds: string[];
+  outputValue: number;
+  // Value the shielded parts move into the transparent ones, negative when
+  // the transaction shields
+  shieldedValue: number;
+  hasShieldedParts: boolean;
+  // Serialized sizes of the transparent inputs and outputs
+  inputsSize: number;
+  outputsSize: number;
+  // ZIP-317 logical actions of the shielded parts
+  shieldedActions: number;
+  // The transaction in the node's decoderawtransaction shape
+  txData: any;
+};
+
+const scriptSize = (length: number) => varIntSize(length) + length;
+
+// Serialized sizes: outpoint, script and sequence; value and script
+const inputSize = (scriptLength: number) => 40 + scriptSize(scriptLength);
+const outputSize = (scriptLength: number) => 8 + scriptSize(scriptLength);
+
+const outputAddress = (script: Buffer) => {
+  try {
+    return address.fromOutputScript(script, network);
+  } catch {
+    return null; // e.g. OP_RETURN
+  }
+};
+
+const fromTransparent = (
+  tx: bitgo.UtxoTransaction<number>
+): DecodedTransaction => {
+  const txid = tx.getId();
+  const inputIds = tx.ins.map(
+    (input) =>
+      `${Buffer.from(input.hash).reverse().toString("hex")}:${input.index}`
+  );
+
+  return {
+    txid,
+    coinbase: tx.isCoinbase(),
+    inputIds,
+    outputValue: tx.outs.reduce((total, output) => total + output.value, 0),
+    shieldedValue: 0,
+    hasShieldedParts: false,
+    inputsSize: tx.ins.reduce(
+      (total, input) => total + inputSize(input.script.length),
+      0
+    ),
+    outputsSize: tx.outs.reduce(
+      (total, output) => total + outputSize(output.script.length),
+      0
+    ),
+    shieldedActions: 0,
+    txData: {
+      txid,
+      vin: inputIds.map((id) => {
+        const [inputTxid, vout] = id.split(":");
+        return { txid: inputTxid, vout: parseInt(vout) };
+      }),
+      vout: tx.outs.map((output, n) => {
+        const outAddress = outputAddress(output.script);
+        return {
+          n,
+          valueSat: output.value,
+          scriptPubKey: {
+            hex: output.script.toString("hex"),
+            type: classify.output(output.script),
+            ...(outAddress && { addresses: [outAddress] }),
+          },
+        };
+      }),
+    },
+  };
+};
+
+// A transaction with Sprout, Sapling or Orchard parts as the node decoded it
+const fromNodeDecoded = (decoded: any): DecodedTransaction => {
+  const vin: any[] = decoded.vin || [];
+  const vout: any[] = decoded.vout || [];
+  const joinSplits: any[] = decoded.vjoinsplit || [];
+  const saplingSpends = (decoded.vShieldedSpend || []).length;
+  const saplingOutputs = (decoded.vShieldedOutput || []).length;
+  const orchardActions = (decoded.orchard?.actions || []).length;
+  const transparentInputs = vin.filter((input) => !input.coinbase);
+
+  return {
+    txid: decoded.txid,
+    coinbase: vin.some((input) => input.coinbase),
+    inputIds: transparentInputs.map((input) => `${input.txid}:${input.vout}`),
+    outputValue: vout.reduce(
+      (total, output) => total + (output.valueSat ?? output.valueZat),
+      0
+    ),
+    shieldedValue:
+      (decoded.valueBalanceZat || 0) +
+      (decoded.orchard?.valueBalanceZat || 0) +
+      joinSplits.reduce(
+        (total, joinSplit) =>
+          total + joinSplit.vpub_newZat - joinSplit.vpub_oldZat,
+        0
+      ),
+    hasShieldedParts:
+      joinSplits.length + saplingSpends + saplingOutputs + orchardActions > 0,
+    inputsSize: transparentInputs.reduce(
+      (total, input) => total + inputSize(input.scriptSig.hex.length / 2),
+      0
+    ),
+    outputsSize: vout.reduce(
+      (total, output) => total + outputSize(output.scriptPubKey.hex.length / 2),
+      0
+    ),
+    shieldedActions:
+      2 * joinSplits.length +
+      Math.max(saplingSpends, saplingOutputs) +
+      orchardActions,
+    txData: decoded,
+  };
+};
+
+// The transparent parser only reads transactions without shielded parts, the
+// node decodes the others
+const decode = async (hex: string) => {
+  if (typeof hex !== "string" || !/^([0-9a-fA-F]{2})+$/.test(hex)) {
+    throw new TransactionRejectedError(
+      "transaction must be a hex encoded raw transaction",
+      400
+    );
+  }
+  try {
+    return fromTransparent(
+      bitgo.createTransactionFromBuffer<number>(
+        Buffer.from(hex, "hex"),
+        network,
+        { amountType: "number" }
+      )
+    );
+  } catch (error) {
+    if (!(error instanceof bitgo.UnsupportedTransactionError)) {
+      throw invalidTransaction(error);
+    }
+  }
+  try {
+    return fromNodeDecoded(await decodeRawTransaction(hex));
+  } catch (error) {
+    if (error instanceof RpcNodeError) throw invalidTransaction(error);
+    throw error;
+  }
+};
+
+// Decode the transaction and check it against the indexed UTXO set: every
+// transparent input must be unspent and the fee within limits. Returns the
+// txid, the fee and the transaction in the node's decoderawtransaction shape.
+export const validateTransaction = async (hex: string) => {
+  const tx = await decode(hex);
+  const { txid, inputIds } = tx;
+
+  if (tx.coinbase || (inputIds.length === 0 && !tx.hasShieldedParts)) {
+    throw new TransactionRejectedError(
+      "Transaction has no inputs to spend",
+      400
+    );
+  }
+
+  const utxos = new Map(
+    (await getUTXOsByIds(inputIds)).map((utxo) => [utxo.id, utxo])
+  );
+
+  const missing = inputIds.filter((id) => !utxos.has(id));
+  if (missing.length > 0) {
+    throw new TransactionRejectedError("Inputs not found", 400, { missing });
+  }
+  const spent = inputIds
+    .map((id) => utxos.get(id)!)
+    .filter((utxo) => utxo.status === "pending" || utxo.status === "spent");
+  if (spent.length > 0) {
+    throw new TransactionRejectedError("Inputs already spent", 409, {
+      spent: spent.map((utxo) => ({
+        id: utxo.id,
+        status: utxo.status,
+        spentTxid: utxo.spentTxid,
+      })),
+    });
+  }
+
+  const inputValue = inputIds.reduce(
+    (total, id) => total + utxos.get(id)!.value,
+    0
+  );
+  const fee = inputValue + tx.shieldedValue - tx.outputValue;
+  const minFee = zip317Fee(tx.inputsSize, tx.outputsSize, tx.shieldedActions);
+
+  if (fee < minFee) {
+    throw new TransactionRejectedError(
+      `Fee too low: ${fee} zatoshis, the ZIP-317 conventional fee is ${minFee}`,
+      400,
+      { fee, minFee }
+    );
+  }
+  if (fee > MAX_BROADCAST_FEE) {
+    throw new TransactionRejectedError(
+      `Fee too high: ${fee} zatoshis, at most ${MAX_BROADCAST_FEE} is accepted`,
+      400,
+      { fee, maxFee: MAX_BROADCAST_FEE }
+    );
+  }
+
+  return { txid, fee, txData: tx.txData };
+};
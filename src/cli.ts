@@ -0,0 +1,415 @@
+import {
+  fetchBlock,
+  INDEXER_CONCURRENCY,
+  INDEXER_PREFETCH_DEPTH,
+} from "./blocks";
+import {
+  ApiKeyError,
+  createApiKey,
+  parseApiPlan,
+  parsePermissions,
+} from "./apiKeys";
+import {
+  applyBlock,
+  backfillOutputs,
+  CheckpointMovedError,
+  closeDB,
+  getBackfillRange,
+  getIndexedBlock,
+  getIndexingCheckpoint,
+  getMempoolCounts,
+  getTrackedMempoolTxids,
+  getUTXOStats,
+  rebuildBalances,
+  removeDuplicateDocuments,
+  rollbackBlocks,
+  saveApiPlan,
+} from "./db";
+import { createLogger } from "./logger";
+import { releaseMempoolTransaction } from "./mempool";
+import { prefetchBlocks } from "./prefetch";
+import { getBlockHash, getlatestBlock, getRawMemPool } from "./rpc";
+import { exportSnapshot, importSnapshot } from "./snapshot";
+import { defaultVerificationOptions, runVerification } from "./verify";
+
+// Admin commands, safe to run next to the indexer and the API server: block
+// writes only go on top of the checkpoint, so whichever process gets to a
+// block first applies it and the other one picks up from there.
+
+const log = createLogger("cli");
+
+// Blocks undone per rollback, to keep each transaction small
+const ROLLBACK_BATCH_BLOCKS = 100;
+// Blocks between backfill progress entries
+const BACKFILL_PROGRESS_BLOCKS = 1000;
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  status                     Indexed tip against the node tip, mempool counts
+  stats                      UTXO counts and total values by status
+  reindex --from H [--to H]  Roll back to H - 1 and apply blocks H to --to
+                             again (default: the indexed tip)
+  rollback --to-height H     Undo every indexed block above H
+  prune-mempool              Undo mempool transactions the node dropped
+  dedupe                     Remove duplicate documents and create the
+                             unique indexes they were blocking
+  backfill-outputs           Add the script details and coinbase flag to
+                             outputs indexed before they were stored
+  verify [--full] [--sample N] [--blocks N] [--repair]
+                             Check indexed outputs against the node's UTXO
+                             set, every indexed block with --full, and fix
+                             what differs with --repair
+  export-snapshot --out FILE [--height H]
+                             Write the UTXO set as of block H (default: the
+                             indexed tip) to a gzipped NDJSON snapshot
+  import-snapshot --in FILE  Verify a snapshot and load it into an empty
+                             database, indexing continues after its block
+  set-plan --id ID --rate N [--quota N] [--routes /api/utxos,...]
+                             Create or replace an API plan: requests per
+                             minute, requests per day, path prefixes
+                             (default: every route)
+  create-api-key --name NAME --plan ID [--permissions broadcast,admin]
+                             Create an API key and print it, it is not shown
+                             again`;
+
+class UsageError extends Error {}
+
+type Options = Record<string, string>;
+
+// --name value or --name=value, and --flag on its own
+const parseOptions = (args: string[], allowed: string[], flags: string[]) => {
+  const options: Options = {};
+  for (let i = 0; i < args.length; i++) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(args[i]);
+    if (match && flags.includes(match[1]) && match[2] === undefined) {
+      options[match[1]] = "true";
+      continue;
+    }
+    if (!match || !allowed.includes(match[1])) {
+      throw new UsageError(`Unexpected argument ${args[i]}`);
+    }
+    const value = match[2] ?? args[++i];
+    if (value === undefined) {
+      throw new UsageError(`Missing value for --${match[1]}`);
+    }
+    options[match[1]] = value;
+  }
+  return options;
+};
+
+const getCount = (options: Options, name: string, what: string) => {
+  if (options[name] === undefined) return undefined;
+  const count = Number(options[name]);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new UsageError(`--${name} must be ${what}`);
+  }
+  return count;
+};
+
+const getHeight = (options: Options, name: string) =>
+  getCount(options, name, "a block height");
+
+const getRequiredHeight = (options: Options, name: string) => {
+  const height = getHeight(options, name);
+  if (height === undefined) throw new UsageError(`--${name} is required`);
+  return height;
+};
+
+const getIndexedTip = async () => (await getIndexingCheckpoint()) - 1;
+
+const print = (value: unknown) => console.log(JSON.stringify(value, null, 2));
+
+// Undo the blocks above height, newest first and in batches. The tip is read
+// again after every batch in case the indexer applied more in between.
+const rollbackTo = async (height: number) => {
+  for (let tip = await getIndexedTip(); tip > height; ) {
+    const fromHeight = Math.max(height + 1, tip - ROLLBACK_BATCH_BLOCKS + 1);
+    const undoneCount = await rollbackBlocks(fromHeight);
+    log.info("Rolled back blocks", { undone: undoneCount, fromHeight });
+    tip = await getIndexedTip();
+  }
+};
+
+// Apply blocks fromHeight to toHeight in order, returns the height to go on
+// from: past toHeight, or wherever another process moved the checkpoint
+const applyBlocks = async (fromHeight: number, toHeight: number) => {
+  const blocks = prefetchBlocks(fromHeight, toHeight + 1, fetchBlock, {
+    concurrency: INDEXER_CONCURRENCY,
+    depth: INDEXER_PREFETCH_DEPTH,
+  });
+
+  for await (const block of blocks) {
+    const parent = await getIndexedBlock(block.height - 1);
+    if (parent && parent.hash !== block.previousBlockHash) {
+      throw new Error(
+        `Block ${block.height} does not build on the indexed chain, let the indexer handle the reorganization first`
+      );
+    }
+
+    try {
+      const { createdCount, confirmedCount, spentCount } = await applyBlock(
+        block
+      );
+      log.info("Indexed block", {
+        blockHeight: block.height,
+        created: createdCount,
+        confirmed: confirmedCount,
+        spent: spentCount,
+      });
+    } catch (error) {
+      if (!(error instanceof CheckpointMovedError)) throw error;
+      return error.checkpoint;
+    }
+  }
+  return toHeight + 1;
+};
+
+const reindex = async (options: Options) => {
+  const from = getRequiredHeight(options, "from");
+  const tip = await getIndexedTip();
+  const to = getHeight(options, "to") ?? tip;
+
+  if (from > tip + 1) {
+    throw new UsageError(`Block ${from} is above the indexed tip ${tip}`);
+  }
+  if (to < from) throw new UsageError("--to must not be below --from");
+  const nodeHeight = await getlatestBlock();
+  if (to > nodeHeight) {
+    throw new UsageError(`--to is above the node tip ${nodeHeight}`);
+  }
+
+  await rollbackTo(from - 1);
+  for (let height = from; height <= to; ) {
+    height = await applyBlocks(height, to);
+  }
+  log.info("Reindexed blocks", { fromHeight: from, toHeight: to });
+};
+
+const rollback = async (options: Options) => {
+  const height = getRequiredHeight(options, "to-height");
+  const tip = await getIndexedTip();
+  if (height >= tip) {
+    throw new UsageError(`Block ${height} is not below the indexed tip ${tip}`);
+  }
+
+  await rollbackTo(height);
+  log.info("Rolled back, a running indexer continues from the new tip", {
+    blockHeight: height,
+  });
+};
+
+const status = async () => {
+  const indexedHeight = await getIndexedTip();
+  const indexed = await getIndexedBlock(indexedHeight);
+  const nodeHeight = await getlatestBlock();
+  const nodeHash =
+    indexed && indexedHeight <= nodeHeight
+      ? await getBlockHash(indexedHeight)
+      : null;
+
+  const nodeMempool = new Set(await getRawMemPool());
+  const tracked = await getTrackedMempoolTxids();
+  const { unconfirmedCount, pendingCount } = await getMempoolCounts();
+
+  print({
+    indexedHeight,
+    indexedHash: indexed?.hash ?? null,
+    nodeHeight,
+    blocksBehind: nodeHeight - indexedHeight,
+    // false means the indexed tip was reorganized away on the node
+    onNodeChain: indexed ? nodeHash === indexed.hash : null,
+    mempool: {
+      nodeTransactions: nodeMempool.size,
+      trackedTransactions: tracked.length,
+      droppedTransactions: tracked.filter((txid) => !nodeMempool.has(txid))
+        .length,
+      unconfirmedUTXOs: unconfirmedCount,
+      pendingSpends: pendingCount,
+    },
+  });
+};
+
+const stats = async () => {
+  print(await getUTXOStats());
+};
+
+// Tracked transactions the node no longer has in its mempool. Mined ones are
+// left for the indexer to confirm, the rest are undone.
+const pruneMempool = async () => {
+  const nodeMempool = new Set(await getRawMemPool());
+  const dropped = (await getTrackedMempoolTxids()).filter(
+    (txid) => !nodeMempool.has(txid)
+  );
+
+  for (const txid of dropped) {
+    await releaseMempoolTransaction(txid);
+  }
+  log.info("Checked transactions missing from the mempool", {
+    count: dropped.length,
+  });
+};
+
+const dedupe = async () => {
+  print(await removeDuplicateDocuments());
+};
+
+// Refetch the blocks of outputs indexed without their script, then recount
+// the balances of the outputs that changed address. Only outputs still
+// missing it are written, so an interrupted run just picks up again.
+const backfillOutputsCommand = async () => {
+  const range = await getBackfillRange();
+  if (!range) {
+    log.info("No outputs to backfill");
+    return;
+  }
+
+  const blocks = prefetchBlocks(
+    range.fromHeight,
+    range.toHeight + 1,
+    fetchBlock,
+    { concurrency: INDEXER_CONCURRENCY, depth: INDEXER_PREFETCH_DEPTH }
+  );
+  const addresses = new Set<string>();
+  let updatedCount = 0;
+  for await (const block of blocks) {
+    const backfilled = await backfillOutputs(block);
+    updatedCount += backfilled.updatedCount;
+    backfilled.addresses.forEach((address) => addresses.add(address));
+    if (block.height % BACKFILL_PROGRESS_BLOCKS === 0) {
+      log.info("Backfilling outputs", {
+        blockHeight: block.height,
+        toHeight: range.toHeight,
+        updated: updatedCount,
+      });
+    }
+  }
+
+  await rebuildBalances(Array.from(addresses));
+  log.info("Backfilled outputs", {
+    ...range,
+    updated: updatedCount,
+    recountedAddresses: addresses.size,
+  });
+};
+
+// Exits with 1 unless the index agrees with the node
+const verify = async (options: Options) => {
+  const run = await runVerification({
+    full: options.full === "true",
+    sampleSize:
+      getCount(options, "sample", "a number of outputs") ??
+      defaultVerificationOptions.sampleSize,
+    sampleBlocks:
+      getCount(options, "blocks", "a number of blocks") ??
+      defaultVerificationOptions.sampleBlocks,
+    repair: options.repair === "true",
+  });
+  print(run);
+  if (!run.consistent) process.exitCode = 1;
+};
+
+const getRequired = (options: Options, name: string) => {
+  if (!options[name]) throw new UsageError(`--${name} is required`);
+  return options[name];
+};
+
+const exportSnapshotCommand = async (options: Options) => {
+  const path = getRequired(options, "out");
+  const height = getHeight(options, "height") ?? (await getIndexedTip());
+  print(await exportSnapshot(path, height));
+};
+
+const importSnapshotCommand = async (options: Options) => {
+  const header = await importSnapshot(getRequired(options, "in"));
+  log.info("Imported snapshot", {
+    utxos: header.count,
+    fromHeight: header.height + 1,
+  });
+};
+
+const setPlan = async (options: Options) => {
+  getRequired(options, "rate");
+  const plan = parseApiPlan(getRequired(options, "id"), {
+    requestsPerMinute: getCount(options, "rate", "a number of requests"),
+    dailyQuota: getCount(options, "quota", "a number of requests") ?? null,
+    routes: options.routes?.split(",").map((route) => route.trim()),
+  });
+  await saveApiPlan({ ...plan });
+  print(plan);
+};
+
+const createApiKeyCommand = async (options: Options) => {
+  print(
+    await createApiKey(
+      getRequired(options, "name"),
+      getRequired(options, "plan"),
+      parsePermissions(
+        options.permissions
+          ? options.permissions
+              .split(",")
+              .map((permission) => permission.trim())
+          : []
+      )
+    )
+  );
+};
+
+const commands: Record<
+  string,
+  {
+    options: string[];
+    flags?: string[];
+    run: (options: Options) => Promise<void>;
+  }
+> = {
+  status: { options: [], run: status },
+  stats: { options: [], run: stats },
+  reindex: { options: ["from", "to"], run: reindex },
+  rollback: { options: ["to-height"], run: rollback },
+  "prune-mempool": { options: [], run: pruneMempool },
+  dedupe: { options: [], run: dedupe },
+  "backfill-outputs": { options: [], run: backfillOutputsCommand },
+  verify: {
+    options: ["sample", "blocks"],
+    flags: ["full", "repair"],
+    run: verify,
+  },
+  "export-snapshot": { options: ["out", "height"], run: exportSnapshotCommand },
+  "import-snapshot": { options: ["in"], run: importSnapshotCommand },
+  "set-plan": { options: ["id", "rate", "quota", "routes"], run: setPlan },
+  "create-api-key": {
+    options: ["name", "plan", "permissions"],
+    run: createApiKeyCommand,
+  },
+};
+
+const main = async () => {
+  const [name, ...args] = process.argv.slice(2);
+  const command = Object.keys(commands).includes(name)
+    ? commands[name]
+    : undefined;
+  if (!command) {
+    if (name) throw new UsageError(`Unknown command ${name}`);
+    console.log(USAGE);
+    return;
+  }
+
+  await command.run(parseOptions(args, command.options, command.flags || []));
+};
+
+main()
+  .catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else if (error instanceof ApiKeyError) {
+      console.error(error.message);
+    } else {
+      log.error("Command failed", { error });
+    }
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeDB();
+    process.exit();
+  });
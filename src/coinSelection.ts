@@ -0,0 +1,250 @@
+import { UTXO } from "./types";
+
+// ZIP-317 conventional fee: marginal fee per logical action, with a grace
+// allowance of two actions
+const ZIP317_MARGINAL_FEE = 5000;
+const ZIP317_GRACE_ACTIONS = 2;
+// Transparent inputs and outputs count as logical actions by these sizes
+const P2PKH_INPUT_SIZE = 150;
+const P2PKH_OUTPUT_SIZE = 34;
+
+// Change below this is not worth an output and goes to the fee instead
+export const DUST_THRESHOLD = 54;
+// A transparent transaction stays well under the 100KB limit with this many
+export const MAX_SELECTED_INPUTS = 500;
+// Search steps branch-and-bound may take before falling back to largest-first
+const BNB_MAX_TRIES = 100000;
+
+export type FeePolicy = { type: "zip317" } | { type: "fixed"; amount: number };
+
+export type CoinSelectionStrategy =
+  | "largest-first"
+  | "branch-and-bound"
+  | "consolidation";
+
+export const COIN_SELECTION_STRATEGIES: CoinSelectionStrategy[] = [
+  "largest-first",
+  "branch-and-bound",
+  "consolidation",
+];
+
+export type CoinSelection = {
+  inputs: UTXO[];
+  fee: number;
+  change: number; // 0 when the leftover was too small for a change output
+};
+
+export class InsufficientFundsError extends Error {
+  constructor(
+    public readonly available: number,
+    public readonly needed: number
+  ) {
+    super(`Insufficient funds: ${available} available, ${needed} needed`);
+    this.name = "InsufficientFundsError";
+  }
+}
+
+// ZIP-317 conventional fee, from the serialized sizes of all the transparent
+// inputs and all the transparent outputs, plus the logical actions of the
+// shielded parts
+export const zip317Fee = (
+  inputsSize: number,
+  outputsSize: number,
+  shieldedActions = 0
+) => {
+  const logicalActions =
+    Math.max(
+      Math.ceil(inputsSize / P2PKH_INPUT_SIZE),
+      Math.ceil(outputsSize / P2PKH_OUTPUT_SIZE)
+    ) + shieldedActions;
+  return ZIP317_MARGINAL_FEE * Math.max(ZIP317_GRACE_ACTIONS, logicalActions);
+};
+
+// Fee of a transparent transaction with P2PKH inputs and outputs
+export const estimateFee = (
+  policy: FeePolicy,
+  inputCount: number,
+  outputCount: number
+) => {
+  if (policy.type === "fixed") return policy.amount;
+  return zip317Fee(
+    inputCount * P2PKH_INPUT_SIZE,
+    outputCount * P2PKH_OUTPUT_SIZE
+  );
+};
+
+const sum = (utxos: UTXO[]) =>
+  utxos.reduce((total, utxo) => total + utxo.value, 0);
+
+// Settle fee and change for a set of inputs, null if they don't cover the target
+const settle = (
+  inputs: UTXO[],
+  target: number,
+  outputCount: number,
+  policy: FeePolicy
+): CoinSelection | null => {
+  const total = sum(inputs);
+
+  const feeWithChange = estimateFee(policy, inputs.length, outputCount + 1);
+  const change = total - target - feeWithChange;
+  if (change >= DUST_THRESHOLD) return { inputs, fee: feeWithChange, change };
+
+  const fee = estimateFee(policy, inputs.length, outputCount);
+  if (total - target < fee) return null;
+  // Whatever is left over is too small for a change output
+  return { inputs, fee: total - target, change: 0 };
+};
+
+const largestFirst = (
+  utxos: UTXO[],
+  target: number,
+  outputCount: number,
+  policy: FeePolicy
+) => {
+  const sorted = [...utxos].sort((a, b) => b.value - a.value);
+  for (
+    let count = 1;
+    count <= Math.min(sorted.length, MAX_SELECTED_INPUTS);
+    count++
+  ) {
+    const selection = settle(
+      sorted.slice(0, count),
+      target,
+      outputCount,
+      policy
+    );
+    if (selection) return selection;
+  }
+  return null;
+};
+
+// Depth-first search for an input set that pays the target and fee without
+// change, wasting at most what a change output would cost
+const branchAndBound = (
+  utxos: UTXO[],
+  target: number,
+  outputCount: number,
+  policy: FeePolicy
+) => {
+  const sorted = [...utxos].sort((a, b) => b.value - a.value);
+  // What is left to add from each position on, to prune hopeless branches
+  const remaining: number[] = [];
+  for (let index = sorted.length - 1, total = 0; index >= 0; index--) {
+    total += sorted[index].value;
+    remaining[index] = total;
+  }
+
+  const best = { inputs: null as UTXO[] | null, excess: Infinity };
+  let tries = 0;
+  const selected: UTXO[] = [];
+  // An explicit stack rather than recursion, the search goes as deep as there
+  // are outputs. Each branch keeps the first kept entries of selected and
+  // adds input, if any, then goes on from index
+  const branches: {
+    index: number;
+    total: number;
+    kept: number;
+    input?: UTXO;
+  }[] = [{ index: 0, total: 0, kept: 0 }];
+
+  while (branches.length > 0) {
+    if (++tries > BNB_MAX_TRIES || best.excess === 0) break;
+    const { index, total, kept, input } = branches.pop()!;
+    selected.length = kept;
+    if (input) selected.push(input);
+
+    const fee = estimateFee(policy, selected.length, outputCount);
+    const costOfChange =
+      estimateFee(policy, selected.length, outputCount + 1) -
+      fee +
+      DUST_THRESHOLD;
+    const excess = total - target - fee;
+
+    if (selected.length > 0 && excess >= 0) {
+      if (excess <= costOfChange && excess < best.excess) {
+        best.inputs = [...selected];
+        best.excess = excess;
+      }
+      // Adding more inputs only grows the excess
+      continue;
+    }
+    if (index >= sorted.length || selected.length >= MAX_SELECTED_INPUTS)
+      continue;
+    if (total + remaining[index] < target + fee) continue;
+
+    // Without the output at index, searched after the branch with it
+    branches.push({ index: index + 1, total, kept: selected.length });
+    branches.push({
+      index: index + 1,
+      total: total + sorted[index].value,
+      kept: selected.length,
+      input: sorted[index],
+    });
+  }
+
+  if (!best.inputs) return null;
+  return { inputs: best.inputs, fee: sum(best.inputs) - target, change: 0 };
+};
+
+// Spend as many small outputs as one transaction allows, to merge them. When
+// the smallest can't pay, the largest left out take the place of the smallest
+// selected, one at a time, until they can.
+const consolidation = (
+  utxos: UTXO[],
+  target: number,
+  outputCount: number,
+  policy: FeePolicy
+) => {
+  const sorted = [...utxos].sort((a, b) => a.value - b.value);
+  const count = Math.min(sorted.length, MAX_SELECTED_INPUTS);
+  const selected = sorted.slice(0, count);
+
+  for (let swapped = 0; ; swapped++) {
+    const selection = settle([...selected], target, outputCount, policy);
+    if (selection) return selection;
+
+    const largest = sorted.length - 1 - swapped;
+    if (largest < count) return null;
+    selected[swapped] = sorted[largest];
+  }
+};
+
+const strategies = {
+  "largest-first": largestFirst,
+  "branch-and-bound": branchAndBound,
+  consolidation,
+};
+
+// Pick inputs from utxos paying outputCount outputs worth target in total
+export const selectCoins = (
+  utxos: UTXO[],
+  target: number,
+  outputCount: number,
+  policy: FeePolicy,
+  strategy: CoinSelectionStrategy
+): CoinSelection => {
+  const selection =
+    strategies[strategy](utxos, target, outputCount, policy) ||
+    // branch-and-bound only finds changeless solutions, and consolidation
+    // fails where as many inputs cost more in fees than they add
+    (strategy !== "largest-first"
+      ? largestFirst(utxos, target, outputCount, policy)
+      : null);
+
+  if (!selection) {
+    // What one transaction can spend at most, the largest outputs
+    const spendable = [...utxos]
+      .sort((a, b) => b.value - a.value)
+      .slice(0, MAX_SELECTED_INPUTS);
+    throw new InsufficientFundsError(
+      sum(spendable),
+      target +
+        estimateFee(
+          policy,
+          Math.max(Math.min(utxos.length, MAX_SELECTED_INPUTS), 1),
+          outputCount
+        )
+    );
+  }
+  return selection;
+};
@@ -1,17 +1,107 @@
-import { Db, MongoClient, ObjectId } from "mongodb";
-import { UTXO } from "./types";
+import { randomBytes } from "crypto";
+import {
+  AnyBulkWriteOperation,
+  ClientSession,
+  Db,
+  Filter,
+  MongoClient,
+  ObjectId,
+} from "mongodb";
+import {
+  BalanceChanges,
+  createBalanceChanges,
+  recordBlockOutput,
+  recordBlockSpend,
+  recordMempoolOutput,
+  recordMempoolOutputRemoved,
+  recordPendingSpend,
+} from "./balances";
+import {
+  publishUTXOEvents,
+  setTipHeight,
+  toUTXOEvents,
+  UTXOEvent,
+} from "./events";
+import {
+  AddressTxTotals,
+  createAddressTxTotals,
+  recordReceived,
+  recordSent,
+} from "./history";
+import { createLogger } from "./logger";
+import { COINBASE_MATURITY } from "./network";
+import {
+  AddressBalance,
+  AddressTx,
+  ApiKey,
+  ApiPlan,
+  ApiUsage,
+  BridgedEvent,
+  IndexedBlock,
+  IndexingCheckpoint,
+  LeaderLease,
+  OpReturn,
+  ParsedBlock,
+  UTXO,
+  UTXOListOptions,
+  UTXOOwner,
+  UTXOReservation,
+  UTXOSpend,
+  VerificationRun,
+  Webhook,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookOutboxEntry,
+} from "./types";
 import dotenv from "dotenv";
 
-dotenv.config();
+dotenv.config({ quiet: true });
+
+const log = createLogger("db");
+
+// Room for UTXO events passed between processes, the oldest make way
+const BRIDGED_EVENTS_SIZE = 64 * 1024 * 1024;
 
 let db: Db | null = null;
+let client: MongoClient | null = null;
 let indexesCreated = false;
+// Transactions need a replica set or sharded cluster, not a standalone server
+let transactionsSupported = false;
+
+// A block write found the checkpoint somewhere else than expected: another
+// process (the admin CLI) applied or rolled back blocks in the meantime
+export class CheckpointMovedError extends Error {
+  constructor(
+    public readonly expected: number,
+    public readonly checkpoint: number
+  ) {
+    super(
+      `Indexing checkpoint is at block ${checkpoint}, expected ${expected}`
+    );
+    this.name = "CheckpointMovedError";
+  }
+}
+
+// Connect without creating the indexes, maintenance may have to run first
+const connect = async () => {
+  if (db) return db;
+  client = await MongoClient.connect(process.env.MONGO_URI!);
+  db = client.db("utxo-indexer");
+
+  const hello = await db.admin().command({ hello: 1 });
+  transactionsSupported = !!hello.setName || hello.msg === "isdbgrid";
+  if (!transactionsSupported) {
+    log.warn(
+      "MongoDB is a standalone server, block writes fall back to idempotent journaled writes"
+    );
+  }
+
+  return db;
+};
 
 const getDB = async () => {
   try {
-    if (db) return db;
-    const client = await MongoClient.connect(process.env.MONGO_URI!);
-    db = client.db("utxo-indexer");
+    await connect();
 
     // Create indexes only once on first connection
     if (!indexesCreated) {
@@ -19,13 +109,72 @@ const getDB = async () => {
       indexesCreated = true;
     }
 
-    return db;
+    return db!;
+  } catch (error) {
+    log.error("Error connecting to MongoDB", { error });
+    throw error;
+  }
+};
+
+// Round trip to the server, for health checks
+export const pingDB = async () => {
+  try {
+    const db = await connect();
+    await db.admin().command({ ping: 1 });
   } catch (error) {
-    console.error("Error connecting to MongoDB:", error);
+    log.error("Error pinging MongoDB", { error });
     throw error;
   }
 };
 
+export const closeDB = async () => {
+  await client?.close();
+  client = null;
+  db = null;
+  indexesCreated = false;
+};
+
+// Unique keys of the collections that could pick up duplicates while their
+// unique index was missing
+const UNIQUE_KEYS: [string, string[]][] = [
+  ["utxos", ["id"]],
+  ["blocks", ["height"]],
+  ["op_returns", ["id"]],
+  ["address_txs", ["address", "txid"]],
+  ["balances", ["address"]],
+];
+
+// Keep the first document of every duplicated key and delete the rest,
+// returns the duplicated keys
+const removeDuplicates = async (db: Db, name: string, fields: string[]) => {
+  const duplicates = await db
+    .collection(name)
+    .aggregate<{ _id: Record<string, any>; count: number; docs: ObjectId[] }>(
+      [
+        { $sort: { _id: 1 } },
+        {
+          $group: {
+            _id: Object.fromEntries(
+              fields.map((field) => [field, `$${field}`])
+            ),
+            count: { $sum: 1 },
+            docs: { $push: "$_id" },
+          },
+        },
+        { $match: { count: { $gt: 1 } } },
+      ],
+      { allowDiskUse: true }
+    )
+    .toArray();
+
+  for (const duplicate of duplicates) {
+    await db
+      .collection(name)
+      .deleteMany({ _id: { $in: duplicate.docs.slice(1) } });
+  }
+  return duplicates;
+};
+
 const ensureIndexes = async () => {
   try {
     if (!db) return;
@@ -50,44 +199,21 @@ const ensureIndexes = async () => {
       try {
         // First, remove duplicates if any exist (only if collection exists)
         if (collectionExists) {
-          const pipeline = [
-            {
-              $group: {
-                _id: "$id",
-                count: { $sum: 1 },
-                docs: { $push: "$_id" },
-              },
-            },
-            {
-              $match: {
-                count: { $gt: 1 },
-              },
-            },
-          ];
-
-          const duplicates = await collection.aggregate(pipeline).toArray();
-
+          const duplicates = await removeDuplicates(db, "utxos", ["id"]);
           if (duplicates.length > 0) {
-            console.log(
-              `Found ${duplicates.length} duplicate UTXO groups, cleaning up...`
-            );
-
-            for (const dup of duplicates) {
-              // Keep the first document, delete the rest
-              const docsToDelete = (dup.docs as any[]).slice(1);
-              await collection.deleteMany({ _id: { $in: docsToDelete } });
-            }
-
-            console.log(`Removed duplicate UTXOs`);
+            log.info("Removed duplicate UTXOs", { count: duplicates.length });
           }
         }
 
         await collection.createIndex({ id: 1 }, { unique: true });
-        console.log("Created unique index on 'id' field");
+        log.info("Created unique index", {
+          collection: "utxos",
+          index: "id_1",
+        });
       } catch (indexError: any) {
         if (indexError.code === 11000) {
-          console.error(
-            "Still have duplicates after cleanup. Please manually clean the database."
+          log.error(
+            "Still have duplicates after cleanup, run `npm run cli -- dedupe`"
           );
         }
         throw indexError;
@@ -97,37 +223,317 @@ const ensureIndexes = async () => {
     // Create index on 'address' field for fast queries by address
     if (!indexNames.includes("address_1")) {
       await collection.createIndex({ address: 1 });
-      console.log("Created index on 'address' field");
+      log.info("Created index", { collection: "utxos", index: "address_1" });
+    }
+
+    // Create indexes on the heights used to undo blocks on reorgs
+    if (!indexNames.includes("blockHeight_1")) {
+      await collection.createIndex({ blockHeight: 1 });
+      log.info("Created index", {
+        collection: "utxos",
+        index: "blockHeight_1",
+      });
+    }
+
+    if (!indexNames.includes("spentHeight_1")) {
+      await collection.createIndex({ spentHeight: 1 }, { sparse: true });
+      log.info("Created index", {
+        collection: "utxos",
+        index: "spentHeight_1",
+      });
+    }
+
+    // Create index on 'spentTxid' field to undo spends of dropped mempool txs
+    if (!indexNames.includes("spentTxid_1")) {
+      await collection.createIndex({ spentTxid: 1 }, { sparse: true });
+      log.info("Created index", { collection: "utxos", index: "spentTxid_1" });
+    }
+
+    // Create index on 'scriptHash' to find outputs with no or several addresses
+    if (!indexNames.includes("scriptHash_1")) {
+      await collection.createIndex({ scriptHash: 1 }, { sparse: true });
+      log.info("Created index", { collection: "utxos", index: "scriptHash_1" });
+    }
+
+    // Create compound indexes backing the sorted, keyset paginated listings
+    for (const owner of ["address", "scriptHash"]) {
+      for (const field of ["value", "blockHeight"]) {
+        const name = `${owner}_1_${field}_-1_id_-1`;
+        if (!indexNames.includes(name)) {
+          await collection.createIndex({ [owner]: 1, [field]: -1, id: -1 });
+          log.info("Created index", { collection: "utxos", index: name });
+        }
+      }
+    }
+
+    // Create index on 'height' field (unique) for the indexed block headers
+    const blocks = db.collection<IndexedBlock>("blocks");
+    const blocksExist =
+      (await db.listCollections({ name: "blocks" }).toArray()).length > 0;
+    const blockIndexNames = blocksExist
+      ? (await blocks.indexes()).map((idx) => idx.name)
+      : [];
+
+    if (!blockIndexNames.includes("height_1")) {
+      await blocks.createIndex({ height: 1 }, { unique: true });
+      log.info("Created unique index", {
+        collection: "blocks",
+        index: "height_1",
+      });
+    }
+
+    // OP_RETURN payloads by prefix, and by height for rollbacks
+    const opReturns = db.collection<OpReturn>("op_returns");
+    await opReturns.createIndex({ id: 1 }, { unique: true });
+    await opReturns.createIndex({ payload: 1 });
+    await opReturns.createIndex({ blockHeight: 1 });
+
+    // Address history, newest first with mempool entries on top
+    const addressTxs = db.collection<AddressTx>("address_txs");
+    await addressTxs.createIndex({ address: 1, txid: 1 }, { unique: true });
+    await addressTxs.createIndex({
+      address: 1,
+      confirmed: 1,
+      blockHeight: -1,
+      txid: -1,
+    });
+    await addressTxs.createIndex({ txid: 1 });
+    await addressTxs.createIndex({ blockHeight: 1 });
+
+    // Balances are looked up and merged by address
+    await db
+      .collection<AddressBalance>("balances")
+      .createIndex({ address: 1 }, { unique: true });
+
+    // Webhook registrations by watched address, their delivery queue and log
+    const webhooks = db.collection<Webhook>("webhooks");
+    await webhooks.createIndex({ id: 1 }, { unique: true });
+    await webhooks.createIndex({ addresses: 1 });
+
+    const deliveries = db.collection<WebhookDelivery>("webhook_deliveries");
+    await deliveries.createIndex({ id: 1 }, { unique: true });
+    await deliveries.createIndex({ status: 1, nextAttemptAt: 1 });
+
+    const outbox = db.collection<WebhookOutboxEntry>("webhook_outbox");
+    await outbox.createIndex({ id: 1 }, { unique: true });
+    await outbox.createIndex({ createdAt: 1 });
+
+    await db
+      .collection<WebhookAttempt>("webhook_delivery_log")
+      .createIndex({ webhookId: 1, attemptedAt: -1 });
+
+    // Coin selection reservations, dropped by MongoDB once they expire
+    const reservations = db.collection<UTXOReservation>("utxo_reservations");
+    await reservations.createIndex({ id: 1 }, { unique: true });
+    await reservations.createIndex({ reservationId: 1 });
+    await reservations.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+    // Verification reports, newest first
+    const verificationRuns =
+      db.collection<VerificationRun>("verification_runs");
+    await verificationRuns.createIndex({ id: 1 }, { unique: true });
+    await verificationRuns.createIndex({ startedAt: -1 });
+
+    await db
+      .collection<LeaderLease>("leases")
+      .createIndex({ id: 1 }, { unique: true });
+
+    const apiKeys = db.collection<ApiKey>("api_keys");
+    await apiKeys.createIndex({ id: 1 }, { unique: true });
+    await apiKeys.createIndex({ keyHash: 1 }, { unique: true });
+    await apiKeys.createIndex({ planId: 1 });
+    await db
+      .collection<ApiPlan>("api_plans")
+      .createIndex({ id: 1 }, { unique: true });
+    const apiUsage = db.collection<ApiUsage>("api_usage");
+    await apiUsage.createIndex({ keyId: 1, day: 1 }, { unique: true });
+    await apiUsage.createIndex({ day: 1 });
+
+    // Capped, so it can be tailed and never has to be cleaned up
+    try {
+      await db.createCollection("utxo_events", {
+        capped: true,
+        size: BRIDGED_EVENTS_SIZE,
+      });
+      // A tailable cursor on an empty capped collection dies right away
+      await db
+        .collection<BridgedEvent>("utxo_events")
+        .insertOne({ origin: "", event: null });
+    } catch (error: any) {
+      if (error.codeName !== "NamespaceExists") throw error;
     }
   } catch (error) {
-    console.error("Error creating indexes:", error);
+    log.error("Error creating indexes", { error });
     throw error;
   }
 };
 
-export const saveUTXOs = async (utxos: UTXO[]) => {
+// UTXOs a write is about to change, to derive balance changes and events
+const findUTXOs = async (
+  db: Db,
+  filter: Filter<UTXO>,
+  session?: ClientSession
+) => {
+  return await db
+    .collection<UTXO>("utxos")
+    .find(filter, { projection: { _id: 0 }, session })
+    .toArray();
+};
+
+const applyBalanceChanges = async (
+  db: Db,
+  changes: BalanceChanges,
+  session?: ClientSession
+) => {
+  if (changes.size === 0) return;
+
+  await db.collection<AddressBalance>("balances").bulkWrite(
+    Array.from(changes.entries()).map(
+      ([address, { firstSeenHeight, lastSeenHeight, ...amounts }]) => ({
+        updateOne: {
+          filter: { address },
+          update: {
+            $inc: amounts,
+            ...(firstSeenHeight !== undefined && {
+              $min: { firstSeenHeight },
+              $max: { lastSeenHeight },
+            }),
+          },
+          upsert: true,
+        },
+      })
+    ),
+    { ordered: false, session }
+  );
+};
+
+// Mempool transactions add to their history entries as their outputs and
+// spends are seen; entries of mined transactions are left alone
+const applyMempoolAddressTxs = async (
+  db: Db,
+  totals: AddressTxTotals,
+  session?: ClientSession
+) => {
+  if (totals.size === 0) return;
+
+  // A colliding upsert would abort the transaction, so entries that are
+  // already mined are left out up front
+  const mined = new Set(
+    (
+      await db
+        .collection<AddressTx>("address_txs")
+        .find(
+          {
+            txid: {
+              $in: Array.from(
+                new Set(Array.from(totals.values(), ({ txid }) => txid))
+              ),
+            },
+            confirmed: true,
+          },
+          { projection: { _id: 0, address: 1, txid: 1 }, session }
+        )
+        .toArray()
+    ).map(({ address, txid }) => `${address}:${txid}`)
+  );
+  const pending = Array.from(totals.values()).filter(
+    ({ address, txid }) => !mined.has(`${address}:${txid}`)
+  );
+  if (pending.length === 0) return;
+
   try {
-    const db = await getDB();
-    // Use ordered: false to continue inserting even if some documents fail due to duplicates
-    await db.collection<UTXO>("utxos").insertMany(utxos, { ordered: false });
+    await db.collection<AddressTx>("address_txs").bulkWrite(
+      pending.map(({ address, txid, received, sent }) => ({
+        updateOne: {
+          filter: { address, txid, confirmed: false },
+          update: {
+            $inc: { received, sent, delta: received - sent },
+            $setOnInsert: { blockHeight: 0, blockTime: null },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false, session }
+    );
   } catch (error: any) {
-    // If it's a duplicate key error (code 11000), only log a warning for the duplicates
-    // but don't throw - some inserts may have succeeded
-    if (error.code === 11000) {
-      const insertedCount = error.result?.nInserted || 0;
-      const duplicateCount = utxos.length - insertedCount;
-      if (duplicateCount > 0) {
-        console.warn(
-          `Skipped ${duplicateCount} duplicate UTXOs, inserted ${insertedCount}`
-        );
-      }
-      return; // Don't throw, continue execution
-    }
-    console.error("Error saving UTXOs:", error);
-    throw error;
+    // The upsert collides with the entry of a transaction mined meanwhile
+    const duplicatesOnly = error.writeErrors?.every(
+      (writeError: any) => writeError.code === 11000
+    );
+    if (!duplicatesOnly) throw error;
   }
 };
 
+// Blocks write each entry in full, so replaying a block gives the same history
+const applyBlockAddressTxs = async (
+  db: Db,
+  block: ParsedBlock,
+  totals: AddressTxTotals,
+  session?: ClientSession
+) => {
+  if (totals.size === 0) return;
+
+  await db.collection<AddressTx>("address_txs").bulkWrite(
+    Array.from(totals.values()).map(({ address, txid, received, sent }) => ({
+      updateOne: {
+        filter: { address, txid },
+        update: {
+          $set: {
+            blockHeight: block.height,
+            blockTime: block.time,
+            confirmed: true,
+            received,
+            sent,
+            delta: received - sent,
+          },
+        },
+        upsert: true,
+      },
+    })),
+    { ordered: true, session }
+  );
+};
+
+const withoutSpend = (utxo: UTXO): UTXO => ({
+  ...utxo,
+  status: "unspent",
+  spentTxid: undefined,
+  spentIndex: undefined,
+  spentHeight: undefined,
+});
+
+// Keep a write's events for the webhook dispatcher in the same unit as the
+// write, so a crash can't lose them; only events for watched addresses
+const saveWebhookOutbox = async (
+  db: Db,
+  events: UTXOEvent[],
+  session?: ClientSession,
+  id = randomBytes(16).toString("hex")
+) => {
+  const addresses = Array.from(
+    new Set(events.flatMap((event) => (event.address ? [event.address] : [])))
+  );
+  if (addresses.length === 0) return;
+
+  const watched = new Set(
+    await db
+      .collection<Webhook>("webhooks")
+      .distinct("addresses", { addresses: { $in: addresses } }, { session })
+  );
+  const watchedEvents = events.filter(
+    (event) => event.address && watched.has(event.address)
+  );
+  if (watchedEvents.length === 0) return;
+
+  await db
+    .collection<WebhookOutboxEntry>("webhook_outbox")
+    .updateOne(
+      { id },
+      { $setOnInsert: { id, events: watchedEvents, createdAt: new Date() } },
+      { upsert: true, session }
+    );
+};
+
 export const saveMempoolUTXOs = async (utxos: UTXO[]) => {
   try {
     if (utxos.length === 0) return;
@@ -143,132 +549,1859 @@ export const saveMempoolUTXOs = async (utxos: UTXO[]) => {
       },
     }));
 
-    const result = await db.collection<UTXO>("utxos").bulkWrite(operations, {
-      ordered: false,
+    // Only the outputs this write inserted count towards balances, in the
+    // same unit as the outputs
+    const events = await withBlockTransaction(async (session) => {
+      const result = await db
+        .collection<UTXO>("utxos")
+        .bulkWrite(operations, { ordered: false, session });
+
+      log.debug("Saved mempool UTXOs", {
+        added: result.upsertedCount,
+        existing: result.matchedCount,
+      });
+
+      const created = Object.keys(result.upsertedIds).map(
+        (index) => utxos[Number(index)]
+      );
+      const changes = createBalanceChanges();
+      created.forEach((utxo) => recordMempoolOutput(changes, utxo));
+      await applyBalanceChanges(db, changes, session);
+
+      const totals = createAddressTxTotals();
+      created.forEach((utxo) => recordReceived(totals, utxo));
+      await applyMempoolAddressTxs(db, totals, session);
+
+      const events = toUTXOEvents("created", created);
+      await saveWebhookOutbox(db, events, session);
+      return events;
     });
 
-    console.log(
-      `Mempool: ${result.upsertedCount} new UTXOs added, ${result.matchedCount} already exist`
-    );
+    publishUTXOEvents(events);
   } catch (error: any) {
-    console.error("Error saving mempool UTXOs:", error);
+    log.error("Error saving mempool UTXOs", { error });
     throw error;
   }
 };
 
-export const markUTXOsAsConfirmed = async (
-  utxoIds: string[],
-  blockHeight: number
-) => {
+// Spends by mempool transactions never overwrite a spend confirmed in a block.
+// Returns how many outputs were marked.
+export const markUTXOsAsPendingSpent = async (spends: UTXOSpend[]) => {
   try {
-    if (utxoIds.length === 0) return 0;
+    if (spends.length === 0) return 0;
     const db = await getDB();
 
-    const result = await db
-      .collection<UTXO>("utxos")
-      .updateMany(
-        { id: { $in: utxoIds }, confirmed: false },
-        { $set: { confirmed: true, blockHeight: blockHeight } }
-      );
+    const events = await withBlockTransaction(async (session) => {
+      const changes = createBalanceChanges();
+      const totals = createAddressTxTotals();
+      const marked: UTXO[] = [];
+
+      // One output at a time, so balances only count the outputs this write
+      // actually took from unspent to pending. An output already pending
+      // stays with the transaction that spent it first, which is the one
+      // its pending spend and address history are counted for.
+      for (const spend of spends) {
+        const utxo = await db.collection<UTXO>("utxos").findOneAndUpdate(
+          { id: spend.id, status: { $nin: ["pending", "spent"] } },
+          {
+            $set: {
+              status: "pending",
+              spentTxid: spend.spentTxid,
+              spentIndex: spend.spentIndex,
+              spentHeight: 0,
+            },
+          },
+          { projection: { _id: 0 }, returnDocument: "before", session }
+        );
+        if (!utxo) continue;
+
+        recordPendingSpend(changes, utxo, 1);
+        recordSent(totals, utxo, spend.spentTxid);
+        marked.push({ ...utxo, ...spend, status: "pending", spentHeight: 0 });
+      }
+
+      await applyBalanceChanges(db, changes, session);
+      await applyMempoolAddressTxs(db, totals, session);
+
+      const events = toUTXOEvents("spent", marked);
+      await saveWebhookOutbox(db, events, session);
+      return events;
+    });
+
+    publishUTXOEvents(events);
+
+    return events.length;
+  } catch (error) {
+    log.error("Error marking UTXOs as pending spent", { error });
+    throw error;
+  }
+};
+
+// Undo a mempool transaction that left the mempool without being mined: the
+// UTXOs it was spending become spendable again and its outputs are removed
+export const revertMempoolTransaction = async (txId: string) => {
+  try {
+    const db = await getDB();
+    const utxos = db.collection<UTXO>("utxos");
+
+    const { events, restoredCount, removedCount } = await withBlockTransaction(
+      async (session) => {
+        // One output at a time, so balances only count what this write
+        // actually restored or removed
+        const restoredUTXOs: UTXO[] = [];
+        for (const { id } of await findUTXOs(
+          db,
+          { spentTxid: txId, status: "pending" },
+          session
+        )) {
+          const utxo = await utxos.findOneAndUpdate(
+            { id, spentTxid: txId, status: "pending" },
+            {
+              $set: { status: "unspent" },
+              $unset: { spentTxid: "", spentIndex: "", spentHeight: "" },
+            },
+            { projection: { _id: 0 }, returnDocument: "before", session }
+          );
+          if (utxo) restoredUTXOs.push(utxo);
+        }
+
+        const removedUTXOs: UTXO[] = [];
+        for (const { id } of await findUTXOs(
+          db,
+          { id: { $regex: `^${txId}:` }, confirmed: false },
+          session
+        )) {
+          const utxo = await utxos.findOneAndDelete(
+            { id, confirmed: false },
+            { projection: { _id: 0 }, session }
+          );
+          if (utxo) removedUTXOs.push(utxo);
+        }
+
+        const changes = createBalanceChanges();
+        restoredUTXOs.forEach((utxo) => recordPendingSpend(changes, utxo, -1));
+        removedUTXOs.forEach((utxo) =>
+          recordMempoolOutputRemoved(changes, utxo)
+        );
+        await applyBalanceChanges(db, changes, session);
+
+        await db
+          .collection<AddressTx>("address_txs")
+          .deleteMany({ txid: txId, confirmed: false }, { session });
+
+        const events = [
+          ...toUTXOEvents("unspent", restoredUTXOs.map(withoutSpend)),
+          ...toUTXOEvents("removed", removedUTXOs),
+        ];
+        await saveWebhookOutbox(db, events, session);
+        return {
+          events,
+          restoredCount: restoredUTXOs.length,
+          removedCount: removedUTXOs.length,
+        };
+      }
+    );
+
+    publishUTXOEvents(events);
 
-    return result.modifiedCount;
+    return { restoredCount, removedCount };
   } catch (error) {
-    console.error("Error marking UTXOs as confirmed:", error);
+    log.error("Error reverting mempool transaction", { error });
     throw error;
   }
 };
 
-export const deleteMempoolUTXOs = async (utxoIds: string[]) => {
+// Transactions the mempool overlay still depends on: pending spenders and
+// creators of unconfirmed UTXOs
+export const getTrackedMempoolTxids = async () => {
   try {
-    if (utxoIds.length === 0) return 0;
     const db = await getDB();
+    const collection = db.collection<UTXO>("utxos");
 
-    // Delete unconfirmed UTXOs that are being spent
-    const result = await db.collection<UTXO>("utxos").deleteMany({
-      id: { $in: utxoIds },
-      confirmed: false,
+    const spenders = await collection.distinct("spentTxid", {
+      status: "pending",
     });
+    const creators = await collection
+      .aggregate<{ _id: string }>([
+        { $match: { confirmed: false } },
+        {
+          $group: {
+            _id: { $arrayElemAt: [{ $split: ["$id", ":"] }, 0] },
+          },
+        },
+      ])
+      .toArray();
 
-    return result.deletedCount;
+    return Array.from(
+      new Set([
+        ...spenders.filter((txid): txid is string => !!txid),
+        ...creators.map((creator) => creator._id),
+      ])
+    );
+  } catch (error) {
+    log.error("Error getting tracked mempool transactions", { error });
+    throw error;
+  }
+};
+
+// Whether a block already indexed the transaction: one of the given outputs
+// of it is confirmed, or it spent an output in a block
+export const isTransactionConfirmed = async (
+  txid: string,
+  outputIds: string[]
+) => {
+  try {
+    const db = await getDB();
+    const confirmed = await db.collection<UTXO>("utxos").findOne(
+      {
+        $or: [
+          { id: { $in: outputIds }, confirmed: true },
+          { spentTxid: txid, status: "spent" },
+        ],
+      },
+      { projection: { _id: 0, id: 1 } }
+    );
+    return confirmed !== null;
+  } catch (error) {
+    log.error("Error checking whether a transaction is confirmed", { error });
+    throw error;
+  }
+};
+
+// Coinbase outputs that can be spent in the block after tipHeight
+const matureFilter = (tipHeight: number): Filter<UTXO> => ({
+  $or: [
+    { coinbase: { $ne: true } },
+    { blockHeight: { $lte: tipHeight - COINBASE_MATURITY + 1 } },
+  ],
+});
+
+// Unspent outputs matching owner, only the spendable ones with spendableAt
+const unspentFilter = (
+  owner: Filter<UTXO>,
+  spendableAt?: number
+): Filter<UTXO> => ({
+  ...owner,
+  status: { $nin: ["pending", "spent"] },
+  ...(spendableAt !== undefined && matureFilter(spendableAt)),
+});
+
+const ownerFilter = (owner: UTXOOwner): Filter<UTXO> =>
+  "scriptHash" in owner
+    ? { scriptHash: owner.scriptHash }
+    : { address: { $in: owner.addresses } };
+
+const SORT_FIELDS = { value: "value", height: "blockHeight" } as const;
+
+// Everything a listing matches, regardless of the page
+const listFilter = (owner: UTXOOwner, options: UTXOListOptions) => {
+  const conditions: Filter<UTXO>[] = [
+    unspentFilter(
+      ownerFilter(owner),
+      options.spendableOnly ? options.tipHeight : undefined
+    ),
+  ];
+
+  if (options.minValue !== undefined) {
+    conditions.push({ value: { $gte: options.minValue } });
+  }
+  if (options.maxValue !== undefined) {
+    conditions.push({ value: { $lte: options.maxValue } });
+  }
+  if (options.confirmed !== undefined) {
+    conditions.push({ confirmed: options.confirmed });
+  }
+  if (options.minConfirmations) {
+    conditions.push({
+      confirmed: true,
+      blockHeight: { $lte: options.tipHeight - options.minConfirmations + 1 },
+    });
+  }
+  if (options.fromHeight !== undefined) {
+    conditions.push({ blockHeight: { $gte: options.fromHeight } });
+  }
+  if (options.toHeight !== undefined) {
+    conditions.push({ blockHeight: { $lte: options.toHeight } });
+  }
+
+  return conditions;
+};
+
+// A page of unspent outputs, ordered by the sort field then id. Pages continue
+// after the last item seen, so they stay consistent while outputs come and go.
+export const listUTXOs = async (owner: UTXOOwner, options: UTXOListOptions) => {
+  try {
+    const db = await getDB();
+    const field = SORT_FIELDS[options.sort];
+    const direction = options.order === "asc" ? 1 : -1;
+    const beyond = options.order === "asc" ? "$gt" : "$lt";
+
+    const conditions = listFilter(owner, options);
+    if (options.after) {
+      conditions.push({
+        $or: [
+          { [field]: { [beyond]: options.after.key } },
+          { [field]: options.after.key, id: { [beyond]: options.after.id } },
+        ],
+      });
+    }
+
+    return await db
+      .collection<UTXO>("utxos")
+      .find({ $and: conditions }, { projection: { _id: 0 } })
+      // Matches the (owner, sort field, id) compound indexes
+      .sort({ [field]: direction, id: direction })
+      .limit(options.limit)
+      .toArray();
+  } catch (error) {
+    log.error("Error listing UTXOs", { error });
+    throw error;
+  }
+};
+
+export const countUTXOs = async (
+  owner: UTXOOwner,
+  options: UTXOListOptions
+) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<UTXO>("utxos")
+      .countDocuments({ $and: listFilter(owner, options) });
   } catch (error) {
-    console.error("Error deleting mempool UTXOs:", error);
+    log.error("Error counting UTXOs", { error });
     throw error;
   }
 };
 
-export const getUTXOs = async (
+// A page of an address's history: mempool transactions first, then mined ones
+// newest first. Pages continue after the last entry seen.
+export const getAddressTxs = async (
   address: string,
   limit: number,
-  offset: number
+  after?: Pick<AddressTx, "confirmed" | "blockHeight" | "txid">
 ) => {
   try {
     const db = await getDB();
-    const utxos = await db
-      .collection<UTXO>("utxos")
-      .find({ address: address })
-      .sort({ value: -1 })
-      .allowDiskUse(true)
+    const filter: Filter<AddressTx> = { address };
+    if (after) {
+      filter.$or = [
+        { confirmed: { $gt: after.confirmed } },
+        { confirmed: after.confirmed, blockHeight: { $lt: after.blockHeight } },
+        {
+          confirmed: after.confirmed,
+          blockHeight: after.blockHeight,
+          txid: { $lt: after.txid },
+        },
+      ];
+    }
+
+    const collection = db.collection<AddressTx>("address_txs");
+    const [txs, total] = await Promise.all([
+      collection
+        .find(filter, { projection: { _id: 0 } })
+        .sort({ confirmed: 1, blockHeight: -1, txid: -1 })
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments({ address }),
+    ]);
+    return { txs, total };
+  } catch (error) {
+    log.error("Error getting address transactions", { error });
+    throw error;
+  }
+};
 
-      .skip(offset)
+// Indexed OP_RETURN payloads starting with a hex prefix, newest first
+export const getOpReturns = async (prefix: string, limit: number) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<OpReturn>("op_returns")
+      .find({ payload: { $regex: `^${prefix}` } }, { projection: { _id: 0 } })
+      .sort({ blockHeight: -1, id: 1 })
       .limit(limit)
       .toArray();
-    return utxos;
   } catch (error) {
-    console.error("Error getting UTXOs:", error);
+    log.error("Error getting OP_RETURN payloads", { error });
+    throw error;
+  }
+};
+
+// Outputs coin selection may spend: not spent or being spent, not reserved
+// and, for coinbase outputs, mature at the next block
+export const getSelectableUTXOs = async (
+  addresses: string[],
+  tipHeight: number,
+  includeUnconfirmed: boolean
+) => {
+  try {
+    const db = await getDB();
+    const utxos = await db
+      .collection<UTXO>("utxos")
+      .find(
+        {
+          ...unspentFilter({ address: { $in: addresses } }, tipHeight),
+          ...(!includeUnconfirmed && { confirmed: true }),
+        },
+        { projection: { _id: 0 } }
+      )
+      .toArray();
+
+    // Expired reservations may outlive expiresAt until the TTL monitor runs
+    const reserved = new Set(
+      (
+        await db
+          .collection<UTXOReservation>("utxo_reservations")
+          .find(
+            {
+              id: { $in: utxos.map((utxo) => utxo.id) },
+              expiresAt: { $gt: new Date() },
+            },
+            { projection: { id: 1 } }
+          )
+          .toArray()
+      ).map((reservation) => reservation.id)
+    );
+    return utxos.filter((utxo) => !reserved.has(utxo.id));
+  } catch (error) {
+    log.error("Error getting selectable UTXOs", { error });
     throw error;
   }
 };
 
-export const deleteSpentUTXOs = async (id: string) => {
+// Reserve all the UTXOs or none, false when another reservation got one first
+export const reserveUTXOs = async (
+  ids: string[],
+  reservationId: string,
+  expiresAt: Date
+) => {
   try {
     const db = await getDB();
-    const deleted = (await db.collection<UTXO>("utxos").deleteOne({ id: id }))
-      .acknowledged;
-    return deleted;
+    const reservations = db.collection<UTXOReservation>("utxo_reservations");
+
+    // Clear expired reservations the TTL monitor hasn't removed yet
+    await reservations.deleteMany({
+      id: { $in: ids },
+      expiresAt: { $lte: new Date() },
+    });
+
+    try {
+      await reservations.insertMany(
+        ids.map((id) => ({ id, reservationId, expiresAt })),
+        { ordered: false }
+      );
+      return true;
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+      await reservations.deleteMany({ reservationId });
+      return false;
+    }
   } catch (error) {
-    console.error("Error deleting spent UTXO:", error);
+    log.error("Error reserving UTXOs", { error });
     throw error;
   }
 };
 
-export const batchDeleteSpentUTXOs = async (ids: string[]) => {
+export const releaseReservation = async (reservationId: string) => {
   try {
-    if (ids.length === 0) return 0;
     const db = await getDB();
     const result = await db
-      .collection<UTXO>("utxos")
-      .deleteMany({ id: { $in: ids } });
+      .collection<UTXOReservation>("utxo_reservations")
+      .deleteMany({ reservationId });
     return result.deletedCount;
   } catch (error) {
-    console.error("Error batch deleting spent UTXOs:", error);
+    log.error("Error releasing reservation", { error });
     throw error;
   }
 };
-export const updateIndexingCheckpoint = async (blockHeight: number) => {
+
+// The addresses that ever received an output, spent or not
+export const getUsedAddresses = async (addresses: string[]) => {
   try {
     const db = await getDB();
-    await db
-      .collection<{ blockHeight: number }>("indexing_checkpoint")
-      .updateOne(
-        { id: "current_indexing_checkpoint" },
-        { $set: { blockHeight } },
-        { upsert: true }
-      );
+    return (await db
+      .collection<UTXO>("utxos")
+      .distinct("address", { address: { $in: addresses } })) as string[];
   } catch (error) {
-    console.error("Error updating indexing checkpoint:", error);
+    log.error("Error getting used addresses", { error });
     throw error;
   }
 };
 
-export const getIndexingCheckpoint = async () => {
+export const getUTXOsByIds = async (ids: string[]) => {
   try {
     const db = await getDB();
-    const checkpoint = await db
-      .collection<{ blockHeight: number }>("indexing_checkpoint")
-      .findOne({ id: "current_indexing_checkpoint" });
-    return checkpoint?.blockHeight || 0;
+    return await db
+      .collection<UTXO>("utxos")
+      .find({ id: { $in: ids } }, { projection: { _id: 0 } })
+      .toArray();
+  } catch (error) {
+    log.error("Error getting UTXOs by ids", { error });
+    throw error;
+  }
+};
+
+// Returns the UTXO whether or not it was spent, with its spend details
+export const getUTXO = async (id: string) => {
+  try {
+    const db = await getDB();
+    return await db.collection<UTXO>("utxos").findOne({ id: id });
+  } catch (error) {
+    log.error("Error getting UTXO", { error });
+    throw error;
+  }
+};
+
+// Run a group of writes as one unit, a block's or a mempool transaction's.
+// Without transaction support the writes run in order: a block's with the
+// checkpoint last and journaled, every write idempotent, so replaying the
+// group after a crash converges on the same state; a mempool transaction's
+// counting each output it changed once, whatever runs alongside.
+const withBlockTransaction = async <T>(
+  fn: (session?: ClientSession) => Promise<T>
+) => {
+  await getDB();
+  if (!transactionsSupported) return await fn();
+
+  const session = client!.startSession();
+  try {
+    return await session.withTransaction(() => fn(session));
+  } finally {
+    await session.endSession();
+  }
+};
+
+const setCheckpoint = async (
+  db: Db,
+  blockHeight: number,
+  blockHash: string | undefined,
+  session?: ClientSession
+) => {
+  await db
+    .collection<IndexingCheckpoint>("indexing_checkpoint")
+    .updateOne(
+      { id: "current_indexing_checkpoint" },
+      { $set: { blockHeight, blockHash } },
+      { upsert: true, session, writeConcern: session ? undefined : { j: true } }
+    );
+};
+
+// Commit a block's header, outputs, spends, balances and the checkpoint as one
+// unit. Outputs already seen in the mempool are confirmed in place; applying
+// the same block twice leaves the same state.
+export const applyBlock = async (block: ParsedBlock) => {
+  try {
+    const db = await getDB();
+    const outputIds = block.outputs.map((output) => output.id);
+    const inputIds = block.inputs.map((input) => input.id);
+
+    const applied = await withBlockTransaction(async (session) => {
+      // Blocks only ever go on top of the checkpoint; inside a transaction a
+      // concurrent move is a write conflict and is seen on the retry
+      const checkpoint = await db
+        .collection<IndexingCheckpoint>("indexing_checkpoint")
+        .findOne({ id: "current_indexing_checkpoint" }, { session });
+      if (checkpoint && checkpoint.blockHeight !== block.height) {
+        throw new CheckpointMovedError(block.height, checkpoint.blockHeight);
+      }
+
+      const changes = createBalanceChanges();
+      const totals = createAddressTxTotals();
+
+      await db.collection<IndexedBlock>("blocks").replaceOne(
+        { height: block.height },
+        {
+          height: block.height,
+          hash: block.hash,
+          previousBlockHash: block.previousBlockHash,
+          time: block.time,
+        },
+        { upsert: true, session }
+      );
+
+      // Outputs go first, they may be spent later in the same block
+      const existing = new Map(
+        (await findUTXOs(db, { id: { $in: outputIds } }, session)).map(
+          (utxo) => [utxo.id, utxo]
+        )
+      );
+      const created: UTXO[] = [];
+      const confirmed: UTXO[] = [];
+      for (const output of block.outputs) {
+        recordReceived(totals, output);
+
+        const utxo = existing.get(output.id);
+        // Already confirmed when this block is being replayed
+        if (utxo?.confirmed) continue;
+
+        if (utxo) {
+          confirmed.push({
+            ...utxo,
+            confirmed: true,
+            blockHeight: block.height,
+          });
+        } else {
+          created.push({ ...output, status: "unspent" });
+        }
+        recordBlockOutput(changes, output, block.height, !!utxo);
+      }
+
+      if (block.outputs.length > 0) {
+        await db.collection<UTXO>("utxos").bulkWrite(
+          block.outputs.map(({ status, ...output }) => ({
+            updateOne: {
+              filter: { id: output.id },
+              update: {
+                $set: { ...output, confirmed: true },
+                // A replayed block must not undo later spends
+                $setOnInsert: { status: status || "unspent" },
+              },
+              upsert: true,
+            },
+          })),
+          { ordered: true, session }
+        );
+      }
+
+      const spendsById = new Map(
+        block.inputs.map((input) => [input.id, input])
+      );
+      const spent: UTXO[] = [];
+      for (const utxo of await findUTXOs(
+        db,
+        { id: { $in: inputIds } },
+        session
+      )) {
+        recordSent(totals, utxo, spendsById.get(utxo.id)!.spentTxid);
+
+        // Already spent by this block when it is being replayed
+        if (utxo.status === "spent" && utxo.spentHeight === block.height) {
+          continue;
+        }
+
+        spent.push({
+          ...utxo,
+          ...spendsById.get(utxo.id)!,
+          status: "spent",
+          spentHeight: block.height,
+        });
+        recordBlockSpend(changes, utxo, block.height);
+      }
+
+      if (block.inputs.length > 0) {
+        await db.collection<UTXO>("utxos").bulkWrite(
+          block.inputs.map((spend) => ({
+            updateOne: {
+              filter: { id: spend.id },
+              update: {
+                $set: {
+                  status: "spent" as const,
+                  spentTxid: spend.spentTxid,
+                  spentIndex: spend.spentIndex,
+                  spentHeight: block.height,
+                },
+              },
+            },
+          })),
+          { ordered: true, session }
+        );
+      }
+
+      if (block.opReturns.length > 0) {
+        await db.collection<OpReturn>("op_returns").bulkWrite(
+          block.opReturns.map((opReturn) => ({
+            replaceOne: {
+              filter: { id: opReturn.id },
+              replacement: opReturn,
+              upsert: true,
+            },
+          })),
+          { ordered: true, session }
+        );
+      }
+
+      await applyBalanceChanges(db, changes, session);
+      await applyBlockAddressTxs(db, block, totals, session);
+
+      const events = [
+        ...toUTXOEvents("created", created, block.height),
+        ...toUTXOEvents("confirmed", confirmed, block.height),
+        ...toUTXOEvents("spent", spent, block.height),
+      ];
+      // Named after the block, so a replay keeps the events of the first run
+      await saveWebhookOutbox(
+        db,
+        events,
+        session,
+        `block:${block.height}:${block.hash}`
+      );
+      await setCheckpoint(db, block.height + 1, block.hash, session);
+
+      return { created, confirmed, spent, events };
+    });
+
+    // Events go out only once the block is committed
+    setTipHeight(block.height);
+    publishUTXOEvents(applied.events);
+
+    return {
+      createdCount: applied.created.length,
+      confirmedCount: applied.confirmed.length,
+      spentCount: applied.spent.length,
+    };
+  } catch (error) {
+    log.error("Error applying block", { error });
+    throw error;
+  }
+};
+
+// Header of a block whose outputs came from elsewhere, e.g. a snapshot
+export const saveIndexedBlock = async (block: IndexedBlock) => {
+  try {
+    const db = await getDB();
+    await db
+      .collection<IndexedBlock>("blocks")
+      .replaceOne({ height: block.height }, block, { upsert: true });
+  } catch (error) {
+    log.error("Error saving indexed block", { error });
+    throw error;
+  }
+};
+
+export const getLowestIndexedBlockHeight = async () => {
+  try {
+    const db = await getDB();
+    const block = await db
+      .collection<IndexedBlock>("blocks")
+      .findOne({}, { sort: { height: 1 } });
+    return block?.height ?? null;
+  } catch (error) {
+    log.error("Error getting lowest indexed block", { error });
+    throw error;
+  }
+};
+
+export const getIndexedBlock = async (height: number) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<IndexedBlock>("blocks")
+      .findOne({ height }, { projection: { _id: 0 } });
+  } catch (error) {
+    log.error("Error getting indexed block", { error });
+    throw error;
+  }
+};
+
+// Undo every indexed block at or above the given height: spends made by those
+// blocks become unspent again and the outputs they created are removed. The
+// checkpoint moves back to the given height in the same unit.
+export const rollbackBlocks = async (fromHeight: number) => {
+  try {
+    const db = await getDB();
+    const parent = await getIndexedBlock(fromHeight - 1);
+
+    const { undoneCount, events } = await withBlockTransaction(
+      async (session) => {
+        const removedUTXOs = await findUTXOs(
+          db,
+          { confirmed: true, blockHeight: { $gte: fromHeight } },
+          session
+        );
+        const removedIds = new Set(removedUTXOs.map((utxo) => utxo.id));
+        const restoredUTXOs = (
+          await findUTXOs(
+            db,
+            { status: "spent", spentHeight: { $gte: fromHeight } },
+            session
+          )
+        ).filter((utxo) => !removedIds.has(utxo.id));
+
+        const events = [
+          ...toUTXOEvents(
+            "unspent",
+            restoredUTXOs.map(withoutSpend),
+            fromHeight - 1
+          ),
+          ...toUTXOEvents("removed", removedUTXOs, fromHeight - 1),
+        ];
+
+        await db.collection<UTXO>("utxos").updateMany(
+          { status: "spent", spentHeight: { $gte: fromHeight } },
+          {
+            $set: { status: "unspent" },
+            $unset: { spentTxid: "", spentIndex: "", spentHeight: "" },
+          },
+          { session }
+        );
+
+        await db.collection<UTXO>("utxos").deleteMany(
+          {
+            confirmed: true,
+            blockHeight: { $gte: fromHeight },
+          },
+          { session }
+        );
+
+        await db
+          .collection<OpReturn>("op_returns")
+          .deleteMany({ blockHeight: { $gte: fromHeight } }, { session });
+
+        await db
+          .collection<AddressTx>("address_txs")
+          .deleteMany(
+            { confirmed: true, blockHeight: { $gte: fromHeight } },
+            { session }
+          );
+
+        const result = await db
+          .collection<IndexedBlock>("blocks")
+          .deleteMany({ height: { $gte: fromHeight } }, { session });
+
+        // Rollbacks are rare, recount the touched addresses instead of
+        // undoing every increment
+        await recountBalances(
+          db,
+          Array.from(
+            new Set(
+              [...removedUTXOs, ...restoredUTXOs].flatMap((utxo) =>
+                utxo.address ? [utxo.address] : []
+              )
+            )
+          ),
+          session
+        );
+
+        await saveWebhookOutbox(db, events, session);
+        await setCheckpoint(db, fromHeight, parent?.hash, session);
+
+        return { undoneCount: result.deletedCount, events };
+      }
+    );
+
+    setTipHeight(fromHeight - 1);
+    publishUTXOEvents(events);
+
+    return undoneCount;
+  } catch (error) {
+    log.error("Error rolling back blocks", { error });
+    throw error;
+  }
+};
+
+// Balances recounted from the outputs they are grouped from
+const isConfirmed = { $eq: ["$confirmed", true] };
+const isSpent = { $eq: ["$status", "spent"] };
+const isConfirmedUnspent = { $and: [isConfirmed, { $not: [isSpent] }] };
+const balanceStages = [
+  {
+    $group: {
+      _id: "$address",
+      confirmed: {
+        $sum: { $cond: [isConfirmedUnspent, "$value", 0] },
+      },
+      unconfirmedIncoming: {
+        $sum: { $cond: [isConfirmed, 0, "$value"] },
+      },
+      unconfirmedOutgoing: {
+        $sum: {
+          $cond: [{ $eq: ["$status", "pending"] }, "$value", 0],
+        },
+      },
+      utxoCount: { $sum: { $cond: [isConfirmedUnspent, 1, 0] } },
+      totalReceived: { $sum: { $cond: [isConfirmed, "$value", 0] } },
+      totalSent: { $sum: { $cond: [isSpent, "$value", 0] } },
+      // $min and $max skip the nulls
+      firstSeenHeight: {
+        $min: { $cond: [isConfirmed, "$blockHeight", null] },
+      },
+      lastSeenHeight: {
+        $max: {
+          $max: [
+            { $cond: [isConfirmed, "$blockHeight", null] },
+            { $cond: [isSpent, "$spentHeight", null] },
+          ],
+        },
+      },
+    },
+  },
+  { $addFields: { address: "$_id" } },
+  { $project: { _id: 0 } },
+];
+
+// Recount balances from the UTXO set, for the given addresses or all of them
+export const rebuildBalances = async (addresses?: string[]) => {
+  try {
+    if (addresses?.length === 0) return;
+    const db = await getDB();
+    const filter = addresses
+      ? { address: { $in: addresses } }
+      : { address: { $type: "string" as const } };
+
+    await db
+      .collection<AddressBalance>("balances")
+      .deleteMany(addresses ? { address: { $in: addresses } } : {});
+    await db
+      .collection<UTXO>("utxos")
+      .aggregate([
+        { $match: filter },
+        ...balanceStages,
+        {
+          $merge: {
+            into: "balances",
+            on: "address",
+            whenMatched: "replace",
+            whenNotMatched: "insert",
+          },
+        },
+      ])
+      .toArray();
+  } catch (error) {
+    log.error("Error rebuilding balances", { error });
+    throw error;
+  }
+};
+
+// rebuildBalances for a few addresses as part of a transaction, which $merge
+// can't be
+const recountBalances = async (
+  db: Db,
+  addresses: string[],
+  session?: ClientSession
+) => {
+  if (addresses.length === 0) return;
+  const balances = await db
+    .collection<UTXO>("utxos")
+    .aggregate<AddressBalance>(
+      [{ $match: { address: { $in: addresses } } }, ...balanceStages],
+      { session }
+    )
+    .toArray();
+
+  await db
+    .collection<AddressBalance>("balances")
+    .deleteMany({ address: { $in: addresses } }, { session });
+  if (balances.length > 0) {
+    await db
+      .collection<AddressBalance>("balances")
+      .insertMany(balances, { session });
+  }
+};
+
+export const getBalance = async (address: string) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<AddressBalance>("balances")
+      .findOne({ address }, { projection: { _id: 0 } });
+  } catch (error) {
+    log.error("Error getting balance", { error });
+    throw error;
+  }
+};
+
+export const getBalances = async (addresses: string[]) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<AddressBalance>("balances")
+      .find({ address: { $in: addresses } }, { projection: { _id: 0 } })
+      .toArray();
+  } catch (error) {
+    log.error("Error getting balances", { error });
+    throw error;
+  }
+};
+
+// Whether balances were never built, although there are UTXOs to count
+export const balancesNeedRebuild = async () => {
+  try {
+    const db = await getDB();
+    const [balanceCount, utxoCount] = await Promise.all([
+      db.collection<AddressBalance>("balances").estimatedDocumentCount(),
+      db.collection<UTXO>("utxos").estimatedDocumentCount(),
+    ]);
+    return balanceCount === 0 && utxoCount > 0;
+  } catch (error) {
+    log.error("Error checking balances", { error });
+    throw error;
+  }
+};
+
+// Confirmed outputs indexed before their script was stored, which also lack
+// the coinbase flag when they predate it
+const withoutScript: Filter<UTXO> = {
+  confirmed: true,
+  script: { $exists: false },
+};
+
+// Lowest and highest block with outputs backfillOutputs has to fill in, null
+// once there are none
+export const getBackfillRange = async () => {
+  try {
+    const db = await getDB();
+    const collection = db.collection<UTXO>("utxos");
+    const [lowest, highest] = await Promise.all(
+      [1, -1].map((direction) =>
+        collection.findOne(withoutScript, {
+          projection: { _id: 0, blockHeight: 1 },
+          sort: { blockHeight: direction as 1 | -1 },
+        })
+      )
+    );
+    if (!lowest || !highest) return null;
+    return { fromHeight: lowest.blockHeight, toHeight: highest.blockHeight };
+  } catch (error) {
+    log.error("Error finding outputs to backfill", { error });
+    throw error;
+  }
+};
+
+// Fill in the script details and coinbase flag of a block's outputs indexed
+// without them, and its OP_RETURN payloads. Outputs whose address changes
+// (multisig used to go to its first address) are returned with both
+// addresses, for their balances to be recounted.
+export const backfillOutputs = async (block: ParsedBlock) => {
+  try {
+    const db = await getDB();
+    const outputs = new Map(block.outputs.map((output) => [output.id, output]));
+    const stale = await findUTXOs(db, {
+      ...withoutScript,
+      id: { $in: Array.from(outputs.keys()) },
+      blockHeight: block.height,
+    });
+
+    const addresses = new Set<string>();
+    const writes: AnyBulkWriteOperation<UTXO>[] = [];
+    for (const utxo of stale) {
+      const output = outputs.get(utxo.id)!;
+      if (utxo.address !== output.address) {
+        if (utxo.address) addresses.add(utxo.address);
+        if (output.address) addresses.add(output.address);
+      }
+      const { script, scriptType, scriptHash, address, coinbase } = output;
+      writes.push({
+        updateOne: {
+          filter: { id: utxo.id, ...withoutScript },
+          update: {
+            $set: {
+              script,
+              scriptType,
+              scriptHash,
+              addresses: output.addresses,
+              ...(address && { address }),
+              ...(coinbase && { coinbase }),
+            },
+            ...(!address && { $unset: { address: "" } }),
+          },
+        },
+      });
+    }
+    if (writes.length > 0) {
+      await db.collection<UTXO>("utxos").bulkWrite(writes, { ordered: false });
+    }
+
+    if (block.opReturns.length > 0) {
+      await db.collection<OpReturn>("op_returns").bulkWrite(
+        block.opReturns.map((opReturn) => ({
+          replaceOne: {
+            filter: { id: opReturn.id },
+            replacement: opReturn,
+            upsert: true,
+          },
+        })),
+        { ordered: false }
+      );
+    }
+
+    return { updatedCount: writes.length, addresses: Array.from(addresses) };
+  } catch (error) {
+    log.error("Error backfilling outputs", { error });
+    throw error;
+  }
+};
+
+// Remove documents duplicating a unique key, then create the unique indexes
+// they were blocking. Returns how many documents were removed per collection.
+export const removeDuplicateDocuments = async () => {
+  try {
+    const db = await connect();
+    const removed: Record<string, number> = {};
+    let balanceAddresses: string[] = [];
+
+    for (const [name, fields] of UNIQUE_KEYS) {
+      const duplicates = await removeDuplicates(db, name, fields);
+      removed[name] = duplicates.reduce(
+        (total, duplicate) => total + duplicate.count - 1,
+        0
+      );
+      if (name === "balances") {
+        balanceAddresses = duplicates.map((duplicate) => duplicate._id.address);
+      }
+    }
+
+    await ensureIndexes();
+    indexesCreated = true;
+
+    // Increments may have landed on any of the copies, count them again
+    await rebuildBalances(balanceAddresses);
+
+    return removed;
+  } catch (error) {
+    log.error("Error removing duplicate documents", { error });
+    throw error;
+  }
+};
+
+// UTXO counts and values by status, with the unconfirmed ones on their own
+export const getUTXOStats = async () => {
+  try {
+    const db = await getDB();
+    const groups = await db
+      .collection<UTXO>("utxos")
+      .aggregate<{
+        _id: { status: "unspent" | "pending" | "spent"; confirmed: boolean };
+        count: number;
+        value: number;
+      }>([
+        {
+          $group: {
+            _id: {
+              status: { $ifNull: ["$status", "unspent"] },
+              confirmed: "$confirmed",
+            },
+            count: { $sum: 1 },
+            value: { $sum: "$value" },
+          },
+        },
+      ])
+      .toArray();
+
+    const empty = () => ({ count: 0, value: 0 });
+    const stats = {
+      unspent: empty(),
+      pending: empty(),
+      spent: empty(),
+      unconfirmed: empty(),
+    };
+    for (const group of groups) {
+      const totals = [stats[group._id.status]];
+      if (!group._id.confirmed) totals.push(stats.unconfirmed);
+      for (const total of totals) {
+        total.count += group.count;
+        total.value += group.value;
+      }
+    }
+
+    return {
+      ...stats,
+      addresses: await db
+        .collection<AddressBalance>("balances")
+        .estimatedDocumentCount(),
+    };
+  } catch (error) {
+    log.error("Error getting UTXO stats", { error });
+    throw error;
+  }
+};
+
+// Confirmed outputs not spent by a block: the indexed part of the chain's
+// UTXO set
+export const getUnspentTotals = async () => {
+  try {
+    const db = await getDB();
+    const [totals] = await db
+      .collection<UTXO>("utxos")
+      .aggregate<{ count: number; value: number }>([
+        { $match: { confirmed: true, status: { $ne: "spent" } } },
+        {
+          $group: {
+            _id: null,
+            count: { $sum: 1 },
+            value: { $sum: "$value" },
+          },
+        },
+      ])
+      .toArray();
+    return { count: totals?.count ?? 0, value: totals?.value ?? 0 };
+  } catch (error) {
+    log.error("Error getting unspent totals", { error });
+    throw error;
+  }
+};
+
+// The UTXO set as it was once block `height` was applied: confirmed outputs up
+// to that height that no block up to it spent, in id order
+export async function* getUTXOSetAt(height: number) {
+  const db = await getDB();
+  const cursor = db.collection<UTXO>("utxos").find(
+    {
+      confirmed: true,
+      blockHeight: { $lte: height },
+      $or: [{ status: { $ne: "spent" } }, { spentHeight: { $gt: height } }],
+    },
+    { projection: { _id: 0 } }
+  );
+  for await (const utxo of cursor.sort({ id: 1 })) {
+    yield withoutSpend(utxo);
+  }
+}
+
+// Store outputs loaded from a snapshot; loading the same ones again is a no-op
+export const saveSnapshotUTXOs = async (utxos: UTXO[]) => {
+  try {
+    const db = await getDB();
+    await db.collection<UTXO>("utxos").bulkWrite(
+      utxos.map((utxo) => ({
+        replaceOne: {
+          filter: { id: utxo.id },
+          replacement: utxo,
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    log.error("Error saving snapshot UTXOs", { error });
+    throw error;
+  }
+};
+
+// Ids of a random sample of the confirmed outputs not spent by a block
+export const sampleUTXOIds = async (size: number) => {
+  try {
+    const db = await getDB();
+    const utxos = await db
+      .collection<UTXO>("utxos")
+      .aggregate<{ id: string }>([
+        // Before $sample, so the sample is drawn from these only
+        { $match: { confirmed: true, status: { $ne: "spent" } } },
+        { $sample: { size } },
+        { $project: { _id: 0, id: 1 } },
+      ])
+      .toArray();
+    return utxos.map((utxo) => utxo.id);
+  } catch (error) {
+    log.error("Error sampling UTXOs", { error });
+    throw error;
+  }
+};
+
+// Bring outputs in line with the node: store the given documents as they are
+// and mark outputs as spent, then recount the balances of every address
+// involved. Nothing is deleted, spent outputs stay in the collection. The
+// repairs were worked out at checkpoint; if the indexer moved it since, they
+// are dropped with a CheckpointMovedError.
+export const repairUTXOs = async (
+  repairs: {
+    replaced: UTXO[];
+    spent: string[];
+  },
+  checkpoint: number
+) => {
+  try {
+    const db = await getDB();
+    const ids = [...repairs.replaced.map((utxo) => utxo.id), ...repairs.spent];
+    if (ids.length === 0) return;
+
+    await withBlockTransaction(async (session) => {
+      const current = await db
+        .collection<IndexingCheckpoint>("indexing_checkpoint")
+        .findOne({ id: "current_indexing_checkpoint" }, { session });
+      if (current && current.blockHeight !== checkpoint) {
+        throw new CheckpointMovedError(checkpoint, current.blockHeight);
+      }
+
+      const previous = await findUTXOs(db, { id: { $in: ids } }, session);
+      const writes: AnyBulkWriteOperation<UTXO>[] = [
+        ...repairs.replaced.map((utxo) => ({
+          replaceOne: {
+            filter: { id: utxo.id },
+            replacement: utxo,
+            upsert: true,
+          },
+        })),
+        ...repairs.spent.map((id) => ({
+          updateOne: {
+            filter: { id },
+            // Spent by the checked tip at the latest; with the height a
+            // rollback below it makes the output unspent again
+            update: {
+              $set: { status: "spent" as const, spentHeight: checkpoint - 1 },
+            },
+          },
+        })),
+      ];
+      await db
+        .collection<UTXO>("utxos")
+        .bulkWrite(writes, { ordered: true, session });
+
+      await recountBalances(
+        db,
+        Array.from(
+          new Set(
+            [...previous, ...repairs.replaced].flatMap((utxo) =>
+              utxo.address ? [utxo.address] : []
+            )
+          )
+        ),
+        session
+      );
+    });
+  } catch (error) {
+    log.error("Error repairing UTXOs", { error });
+    throw error;
+  }
+};
+
+// Outputs not spent by a block, including unconfirmed and pending ones
+export const countUnspentUTXOs = async () => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<UTXO>("utxos")
+      .countDocuments({ status: { $ne: "spent" } });
+  } catch (error) {
+    log.error("Error counting unspent UTXOs", { error });
+    throw error;
+  }
+};
+
+// Outputs of mempool transactions and UTXOs they spend
+export const getMempoolCounts = async () => {
+  try {
+    const db = await getDB();
+    const collection = db.collection<UTXO>("utxos");
+    return {
+      unconfirmedCount: await collection.countDocuments({ confirmed: false }),
+      pendingCount: await collection.countDocuments({ status: "pending" }),
+    };
+  } catch (error) {
+    log.error("Error getting mempool counts", { error });
+    throw error;
+  }
+};
+
+export const updateIndexingCheckpoint = async (
+  blockHeight: number,
+  blockHash?: string
+) => {
+  try {
+    const db = await getDB();
+    await setCheckpoint(db, blockHeight, blockHash);
+  } catch (error) {
+    log.error("Error updating indexing checkpoint", { error });
+    throw error;
+  }
+};
+
+export const getIndexingCheckpoint = async () => {
+  try {
+    const db = await getDB();
+    const checkpoint = await db
+      .collection<IndexingCheckpoint>("indexing_checkpoint")
+      .findOne({ id: "current_indexing_checkpoint" });
+    return checkpoint?.blockHeight || 0;
+  } catch (error) {
+    log.error("Error getting indexing checkpoint", { error });
+    throw error;
+  }
+};
+
+export const saveWebhook = async (webhook: Webhook) => {
+  try {
+    const db = await getDB();
+    await db.collection<Webhook>("webhooks").insertOne(webhook);
+  } catch (error) {
+    log.error("Error saving webhook", { error });
+    throw error;
+  }
+};
+
+export const getWebhook = async (id: string) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<Webhook>("webhooks")
+      .findOne({ id }, { projection: { _id: 0 } });
+  } catch (error) {
+    log.error("Error getting webhook", { error });
+    throw error;
+  }
+};
+
+// Removes the webhook and drops its undelivered events
+export const deleteWebhook = async (id: string) => {
+  try {
+    const db = await getDB();
+    const result = await db.collection<Webhook>("webhooks").deleteOne({ id });
+    await db
+      .collection<WebhookDelivery>("webhook_deliveries")
+      .deleteMany({ webhookId: id, status: "pending" });
+    return result.deletedCount > 0;
+  } catch (error) {
+    log.error("Error deleting webhook", { error });
+    throw error;
+  }
+};
+
+export const getWebhooksByIds = async (ids: string[]) => {
+  try {
+    if (ids.length === 0) return [];
+    const db = await getDB();
+    return await db
+      .collection<Webhook>("webhooks")
+      .find({ id: { $in: ids } }, { projection: { _id: 0 } })
+      .toArray();
+  } catch (error) {
+    log.error("Error getting webhooks by ids", { error });
+    throw error;
+  }
+};
+
+export const getWebhooksForAddresses = async (addresses: string[]) => {
+  try {
+    if (addresses.length === 0) return [];
+    const db = await getDB();
+    return await db
+      .collection<Webhook>("webhooks")
+      .find({ addresses: { $in: addresses } }, { projection: { _id: 0 } })
+      .toArray();
+  } catch (error) {
+    log.error("Error getting webhooks for addresses", { error });
+    throw error;
+  }
+};
+
+// Oldest first, for the dispatcher to turn into deliveries
+export const getWebhookOutbox = async (limit: number) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<WebhookOutboxEntry>("webhook_outbox")
+      .find({}, { projection: { _id: 0 } })
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .toArray();
+  } catch (error) {
+    log.error("Error getting webhook outbox", { error });
+    throw error;
+  }
+};
+
+export const deleteWebhookOutbox = async (ids: string[]) => {
+  try {
+    const db = await getDB();
+    await db
+      .collection<WebhookOutboxEntry>("webhook_outbox")
+      .deleteMany({ id: { $in: ids } });
+  } catch (error) {
+    log.error("Error deleting webhook outbox", { error });
+    throw error;
+  }
+};
+
+// Deliveries already saved are left as they are, so saving the deliveries
+// of an outbox entry again is harmless
+export const saveWebhookDeliveries = async (deliveries: WebhookDelivery[]) => {
+  try {
+    if (deliveries.length === 0) return;
+    const db = await getDB();
+    await db.collection<WebhookDelivery>("webhook_deliveries").bulkWrite(
+      deliveries.map((delivery) => ({
+        updateOne: {
+          filter: { id: delivery.id },
+          update: { $setOnInsert: delivery },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    log.error("Error saving webhook deliveries", { error });
+    throw error;
+  }
+};
+
+// Pending deliveries whose retry time has come and whose event has enough
+// confirmations at the given tip
+export const getDueWebhookDeliveries = async (
+  tipHeight: number,
+  limit: number
+) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<WebhookDelivery>("webhook_deliveries")
+      .find(
+        {
+          status: "pending",
+          nextAttemptAt: { $lte: new Date() },
+          requiredHeight: { $lte: tipHeight },
+        },
+        { projection: { _id: 0 } }
+      )
+      .sort({ nextAttemptAt: 1 })
+      .limit(limit)
+      .toArray();
+  } catch (error) {
+    log.error("Error getting due webhook deliveries", { error });
+    throw error;
+  }
+};
+
+export const cancelWebhookDeliveries = async (ids: string[]) => {
+  try {
+    if (ids.length === 0) return;
+    const db = await getDB();
+    await db
+      .collection<WebhookDelivery>("webhook_deliveries")
+      .updateMany(
+        { id: { $in: ids }, status: "pending" },
+        { $set: { status: "cancelled", lastError: "Reorganized away" } }
+      );
+  } catch (error) {
+    log.error("Error cancelling webhook deliveries", { error });
+    throw error;
+  }
+};
+
+// Log one delivery attempt and move the delivery to its next state
+export const recordWebhookAttempt = async (
+  attempt: WebhookAttempt,
+  update: Partial<WebhookDelivery>
+) => {
+  try {
+    const db = await getDB();
+    await db
+      .collection<WebhookAttempt>("webhook_delivery_log")
+      .insertOne(attempt);
+    await db
+      .collection<WebhookDelivery>("webhook_deliveries")
+      .updateOne({ id: attempt.deliveryId }, { $set: update });
+  } catch (error) {
+    log.error("Error recording webhook attempt", { error });
+    throw error;
+  }
+};
+
+export const getWebhookDeliveryLog = async (
+  webhookId: string,
+  limit: number
+) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<WebhookAttempt>("webhook_delivery_log")
+      .find({ webhookId }, { projection: { _id: 0 } })
+      .sort({ attemptedAt: -1 })
+      .limit(limit)
+      .toArray();
+  } catch (error) {
+    log.error("Error getting webhook delivery log", { error });
+    throw error;
+  }
+};
+
+export const saveVerificationRun = async (run: VerificationRun) => {
+  try {
+    const db = await getDB();
+    await db
+      .collection<VerificationRun>("verification_runs")
+      .replaceOne({ id: run.id }, run, { upsert: true });
+  } catch (error) {
+    log.error("Error saving verification run", { error });
+    throw error;
+  }
+};
+
+// Latest runs first, without their issue lists
+export const getVerificationRuns = async (limit: number) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<VerificationRun>("verification_runs")
+      .find({}, { projection: { _id: 0, issues: 0 } })
+      .sort({ startedAt: -1 })
+      .limit(limit)
+      .toArray();
+  } catch (error) {
+    log.error("Error getting verification runs", { error });
+    throw error;
+  }
+};
+
+export const getVerificationRun = async (id: string) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<VerificationRun>("verification_runs")
+      .findOne({ id }, { projection: { _id: 0 } });
+  } catch (error) {
+    log.error("Error getting verification run", { error });
+    throw error;
+  }
+};
+
+// Take the lease, or renew it if holder has it already. Returns false while
+// another holder's lease hasn't expired.
+export const acquireLease = async (
+  id: string,
+  holder: string,
+  ttlMs: number
+) => {
+  try {
+    const db = await getDB();
+    const now = new Date();
+    await db
+      .collection<LeaderLease>("leases")
+      .updateOne(
+        { id, $or: [{ holder }, { expiresAt: { $lte: now } }] },
+        { $set: { holder, expiresAt: new Date(now.getTime() + ttlMs) } },
+        { upsert: true }
+      );
+    return true;
+  } catch (error: any) {
+    // The upsert ran into the lease another holder still has
+    if (error.code === 11000) return false;
+    log.error("Error acquiring lease", { error });
+    throw error;
+  }
+};
+
+export const releaseLease = async (id: string, holder: string) => {
+  try {
+    const db = await getDB();
+    await db.collection<LeaderLease>("leases").deleteOne({ id, holder });
+  } catch (error) {
+    log.error("Error releasing lease", { error });
+    throw error;
+  }
+};
+
+export const saveBridgedEvents = async (events: BridgedEvent[]) => {
+  try {
+    const db = await getDB();
+    // Unset fields stay unset instead of turning into nulls
+    await db
+      .collection<BridgedEvent>("utxo_events")
+      .insertMany(events, { ignoreUndefined: true });
+  } catch (error) {
+    log.error("Error saving bridged events", { error });
+    throw error;
+  }
+};
+
+// A cursor that waits for events inserted after the ones it has read, and
+// returns null from tryNext every maxAwaitTimeMS without one
+export const tailBridgedEvents = async (maxAwaitTimeMS: number) => {
+  try {
+    const db = await getDB();
+    return db.collection<BridgedEvent>("utxo_events").find(
+      {},
+      {
+        tailable: true,
+        awaitData: true,
+        maxAwaitTimeMS,
+        projection: { _id: 0 },
+      }
+    );
+  } catch (error) {
+    log.error("Error tailing bridged events", { error });
+    throw error;
+  }
+};
+
+export const saveApiPlan = async (plan: ApiPlan) => {
+  try {
+    const db = await getDB();
+    await db
+      .collection<ApiPlan>("api_plans")
+      .replaceOne({ id: plan.id }, plan, { upsert: true });
+  } catch (error) {
+    log.error("Error saving API plan", { error });
+    throw error;
+  }
+};
+
+export const getApiPlan = async (id: string) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<ApiPlan>("api_plans")
+      .findOne({ id }, { projection: { _id: 0 } });
+  } catch (error) {
+    log.error("Error getting API plan", { error });
+    throw error;
+  }
+};
+
+export const getApiPlans = async () => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<ApiPlan>("api_plans")
+      .find({}, { projection: { _id: 0 } })
+      .sort({ id: 1 })
+      .toArray();
+  } catch (error) {
+    log.error("Error getting API plans", { error });
+    throw error;
+  }
+};
+
+// Plans still used by a key are kept, returns whether it was deleted
+export const deleteApiPlan = async (id: string) => {
+  try {
+    const db = await getDB();
+    if (await db.collection<ApiKey>("api_keys").findOne({ planId: id })) {
+      return false;
+    }
+    await db.collection<ApiPlan>("api_plans").deleteOne({ id });
+    return true;
+  } catch (error) {
+    log.error("Error deleting API plan", { error });
+    throw error;
+  }
+};
+
+export const saveApiKey = async (apiKey: ApiKey) => {
+  try {
+    const db = await getDB();
+    await db.collection<ApiKey>("api_keys").insertOne(apiKey);
+  } catch (error) {
+    log.error("Error saving API key", { error });
+    throw error;
+  }
+};
+
+export const getApiKey = async (id: string) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<ApiKey>("api_keys")
+      .findOne({ id }, { projection: { _id: 0 } });
+  } catch (error) {
+    log.error("Error getting API key", { error });
+    throw error;
+  }
+};
+
+export const getApiKeyByHash = async (keyHash: string) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<ApiKey>("api_keys")
+      .findOne({ keyHash }, { projection: { _id: 0 } });
+  } catch (error) {
+    log.error("Error getting API key", { error });
+    throw error;
+  }
+};
+
+export const getApiKeys = async () => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<ApiKey>("api_keys")
+      .find({}, { projection: { _id: 0 } })
+      .sort({ createdAt: 1 })
+      .toArray();
+  } catch (error) {
+    log.error("Error getting API keys", { error });
+    throw error;
+  }
+};
+
+// Returns the updated key, null if there is none with that id
+export const updateApiKey = async (
+  id: string,
+  changes: Partial<Pick<ApiKey, "name" | "planId" | "permissions" | "active">>
+) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<ApiKey>("api_keys")
+      .findOneAndUpdate(
+        { id },
+        { $set: changes },
+        { returnDocument: "after", projection: { _id: 0 } }
+      );
+  } catch (error) {
+    log.error("Error updating API key", { error });
+    throw error;
+  }
+};
+
+// Add requests to a key's usage of the day, returns the day's request count
+export const addApiUsage = async (
+  keyId: string,
+  day: string,
+  count: number,
+  rejected: number,
+  routes: Record<string, number>
+) => {
+  try {
+    const db = await getDB();
+    const usage = await db.collection<ApiUsage>("api_usage").findOneAndUpdate(
+      { keyId, day },
+      {
+        $inc: {
+          count,
+          rejected,
+          ...Object.fromEntries(
+            Object.entries(routes).map(([route, routeCount]) => [
+              `routes.${route}`,
+              routeCount,
+            ])
+          ),
+        },
+      },
+      { upsert: true, returnDocument: "after" }
+    );
+    return usage?.count ?? count;
+  } catch (error) {
+    log.error("Error adding API usage", { error });
+    throw error;
+  }
+};
+
+// Requests made with a key so far on a day
+export const getApiUsageCount = async (keyId: string, day: string) => {
+  try {
+    const db = await getDB();
+    const usage = await db
+      .collection<ApiUsage>("api_usage")
+      .findOne({ keyId, day });
+    return usage?.count ?? 0;
+  } catch (error) {
+    log.error("Error getting API usage count", { error });
+    throw error;
+  }
+};
+
+// Usage between two days, inclusive, newest first
+export const getApiUsage = async (options: {
+  keyId?: string;
+  fromDay: string;
+  toDay: string;
+}) => {
+  try {
+    const db = await getDB();
+    return await db
+      .collection<ApiUsage>("api_usage")
+      .find(
+        {
+          ...(options.keyId && { keyId: options.keyId }),
+          day: { $gte: options.fromDay, $lte: options.toDay },
+        },
+        { projection: { _id: 0 } }
+      )
+      .sort({ day: -1, keyId: 1 })
+      .toArray();
   } catch (error) {
-    console.error("Error getting indexing checkpoint:", error);
+    log.error("Error getting API usage", { error });
     throw error;
   }
 };
@@ -0,0 +1,78 @@
+import { saveBridgedEvents, tailBridgedEvents } from "./db";
+import { dispatchUTXOEvent, setUTXOEventForwarder } from "./events";
+import { PROCESS_ID } from "./lease";
+import { createLogger } from "./logger";
+
+const log = createLogger("eventBridge");
+
+// How long a read waits for new events before checking whether to stop
+const BRIDGE_POLL_MS = 1000;
+// Pause before reopening a cursor that failed
+const BRIDGE_RETRY_MS = 1000;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// UTXO events are published by whichever process writes the change, while
+// event streams and webhooks may be served by another one. Every process
+// writes the events it publishes to the capped utxo_events collection and
+// tails it for the events of the others.
+export const startEventBridge = () => {
+  let active = true;
+  let writes = Promise.resolve();
+
+  setUTXOEventForwarder((events) => {
+    const bridged = events.map((event) => ({ origin: PROCESS_ID, event }));
+    // One insert at a time, so the others see the events in order
+    writes = writes
+      .then(() => saveBridgedEvents(bridged))
+      .catch((error) => {
+        log.error("Error passing on UTXO events", {
+          count: events.length,
+          error,
+        });
+      });
+  });
+
+  const tail = async () => {
+    while (active) {
+      try {
+        const cursor = await tailBridgedEvents(BRIDGE_POLL_MS);
+        // The events already there when the cursor opened are old news
+        let caughtUp = false;
+        try {
+          while (active) {
+            const bridged = await cursor.tryNext();
+            if (!bridged) {
+              caughtUp = true;
+              continue;
+            }
+            if (caughtUp && bridged.event && bridged.origin !== PROCESS_ID) {
+              dispatchUTXOEvent(bridged.event);
+            }
+          }
+        } finally {
+          await cursor.close();
+        }
+      } catch (error) {
+        if (!active) break;
+        log.error(
+          "Error reading UTXO events from other processes, some may be missed",
+          { error }
+        );
+        await sleep(BRIDGE_RETRY_MS);
+      }
+    }
+  };
+
+  const tailing = tail();
+
+  // Stop reading, and wait for the events published so far to be written
+  const stop = async () => {
+    active = false;
+    setUTXOEventForwarder(null);
+    await Promise.all([tailing, writes]);
+  };
+
+  return stop;
+};
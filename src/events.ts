@@ -0,0 +1,136 @@
+import { createLogger } from "./logger";
+import { UTXO } from "./types";
+
+const log = createLogger("events");
+
+// What happened to an output:
+// - created: a new output, unconfirmed if it came from the mempool
+// - confirmed: a mempool output was mined
+// - spent: spent by a block, or by a mempool transaction (status "pending")
+// - unspent: a spend was undone (dropped mempool transaction or reorg)
+// - removed: the output no longer exists (dropped mempool transaction or reorg)
+export type UTXOEventType =
+  | "created"
+  | "confirmed"
+  | "spent"
+  | "unspent"
+  | "removed";
+
+export type UTXOEvent = {
+  type: UTXOEventType;
+  tipHeight: number;
+  value: number;
+  txid: string;
+  vout: number;
+  address?: string; // unset for outputs without a single address
+  scriptHash?: string;
+  blockHeight: number;
+  confirmed: boolean;
+  status: string;
+  spentTxid?: string;
+  spentHeight?: number;
+};
+
+export type UTXOEventListener = (event: UTXOEvent) => void;
+
+const addressListeners = new Map<string, Set<UTXOEventListener>>();
+const globalListeners = new Set<UTXOEventListener>();
+
+// Height of the last indexed block, carried by every event
+let tipHeight = 0;
+
+export const setTipHeight = (height: number) => {
+  tipHeight = height;
+};
+
+export const getTipHeight = () => tipHeight;
+
+// Listen to events for a set of addresses, returns the unsubscribe function
+export const subscribeToAddresses = (
+  addresses: string[],
+  listener: UTXOEventListener
+) => {
+  for (const address of addresses) {
+    if (!addressListeners.has(address)) {
+      addressListeners.set(address, new Set());
+    }
+    addressListeners.get(address)!.add(listener);
+  }
+
+  return () => {
+    for (const address of addresses) {
+      const listeners = addressListeners.get(address);
+      listeners?.delete(listener);
+      if (listeners?.size === 0) addressListeners.delete(address);
+    }
+  };
+};
+
+// Listen to events for every address, returns the unsubscribe function
+export const subscribeToAllAddresses = (listener: UTXOEventListener) => {
+  globalListeners.add(listener);
+  return () => {
+    globalListeners.delete(listener);
+  };
+};
+
+const deliver = (listener: UTXOEventListener, event: UTXOEvent) => {
+  try {
+    listener(event);
+  } catch (error) {
+    log.error("Error delivering UTXO event", {
+      type: event.type,
+      address: event.address,
+      error,
+    });
+  }
+};
+
+// Deliver an event to the listeners in this process
+export const dispatchUTXOEvent = (event: UTXOEvent) => {
+  if (event.address) {
+    addressListeners.get(event.address)?.forEach((listener) => {
+      deliver(listener, event);
+    });
+  }
+  globalListeners.forEach((listener) => deliver(listener, event));
+};
+
+let forwarder: ((events: UTXOEvent[]) => void) | null = null;
+
+// Also hand every event published here to forward, e.g. to pass them on to
+// the other processes sharing the database
+export const setUTXOEventForwarder = (
+  forward: ((events: UTXOEvent[]) => void) | null
+) => {
+  forwarder = forward;
+};
+
+// Events for outputs a write changed, at the given tip
+export const toUTXOEvents = (
+  type: UTXOEventType,
+  utxos: UTXO[],
+  eventTipHeight = tipHeight
+) =>
+  utxos.map((utxo): UTXOEvent => {
+    const [txid, vout] = utxo.id.split(":");
+    return {
+      type,
+      tipHeight: eventTipHeight,
+      value: utxo.value,
+      txid,
+      vout: parseInt(vout),
+      address: utxo.address,
+      scriptHash: utxo.scriptHash,
+      blockHeight: utxo.blockHeight,
+      confirmed: utxo.confirmed,
+      status: utxo.status || "unspent",
+      spentTxid: utxo.spentTxid,
+      spentHeight: utxo.spentHeight,
+    };
+  });
+
+export const publishUTXOEvents = (events: UTXOEvent[]) => {
+  events.forEach(dispatchUTXOEvent);
+  if (events.length > 0) forwarder?.(events);
+};
@@ -0,0 +1,42 @@
+import { UTXO } from "./types";
+
+// What one transaction moved in and out of one address
+export type AddressTxTotal = {
+  address: string;
+  txid: string;
+  received: number;
+  sent: number;
+};
+
+export type AddressTxTotals = Map<string, AddressTxTotal>;
+
+export const createAddressTxTotals = (): AddressTxTotals => new Map();
+
+// Outputs without a single address have no history to record
+const getTotal = (totals: AddressTxTotals, txid: string, address?: string) => {
+  if (!address) return null;
+
+  const key = `${address}:${txid}`;
+  let total = totals.get(key);
+  if (!total) {
+    total = { address, txid, received: 0, sent: 0 };
+    totals.set(key, total);
+  }
+  return total;
+};
+
+// The transaction that created the output paid its address
+export const recordReceived = (totals: AddressTxTotals, utxo: UTXO) => {
+  const total = getTotal(totals, utxo.id.split(":")[0], utxo.address);
+  if (total) total.received += utxo.value;
+};
+
+// spentTxid spent the output from its address
+export const recordSent = (
+  totals: AddressTxTotals,
+  utxo: UTXO,
+  spentTxid: string
+) => {
+  const total = getTotal(totals, spentTxid, utxo.address);
+  if (total) total.sent += utxo.value;
+};
@@ -1,104 +1,102 @@
 import {
-  batchDeleteSpentUTXOs,
-  deleteMempoolUTXOs,
+  fetchBlock,
+  INDEXER_CONCURRENCY,
+  INDEXER_PREFETCH_DEPTH,
+} from "./blocks";
+import {
+  applyBlock,
+  balancesNeedRebuild,
+  CheckpointMovedError,
+  closeDB,
+  getBackfillRange,
+  getIndexedBlock,
   getIndexingCheckpoint,
-  markUTXOsAsConfirmed,
-  saveUTXOs,
-  updateIndexingCheckpoint,
+  rebuildBalances,
+  rollbackBlocks,
 } from "./db";
-import { logger } from "./logger";
-import mempoolScanner from "./mempool";
-import { getBlock, getlatestBlock, getTransaction } from "./rpc";
-import "./server";
+import { startEventBridge } from "./eventBridge";
+import { setTipHeight } from "./events";
+import { Lease, runWithLease } from "./lease";
+import { createLogger, withLogContext } from "./logger";
+import {
+  blockApplySeconds,
+  blocksIndexed,
+  indexedHeight,
+  nodeHeight,
+} from "./metrics";
+import mempoolScanner, {
+  handleRawTransaction,
+  wakeMempoolScanner,
+} from "./mempool";
+import { prefetchBlocks } from "./prefetch";
+import { hasRole, ROLES } from "./roles";
+import { startMonitoringServer } from "./monitoring";
+import { getBlockHash, getlatestBlock } from "./rpc";
+import { RpcTransportError } from "./rpcClient";
+import { startServer } from "./server";
+import { ParsedBlock } from "./types";
+import { startWebhookDispatcher } from "./webhooks";
+import { startVerificationSchedule } from "./verify";
+import { subscribeToNode } from "./zmq";
+
+const log = createLogger("indexer");
 
 //define the start height
 const START_HEIGHT = parseInt(process.env.START_HEIGHT || "3131019");
-const BATCH_SIZE = 10; // Process 10 blocks in parallel
-
-const indexUTXOs = async (blockHeight: number) => {
-  const block = await getBlock(blockHeight);
-
-  if (!block.result) throw new Error("Failed to fetch block");
-
-  const { result: blockData } = block;
-
-  //array of transactions in the block
-  const txs = blockData.tx;
-
-  const inputs: any[] = [];
-  const outputs: any[] = [];
-
-  for (const [index, tx] of txs.entries()) {
-    const txData = await getTransaction(tx);
-
-    // For non-coinbase transactions, process inputs (spent UTXOs)
-    // Coinbase transactions (index 0) don't have valid inputs to spend
-    if (index !== 0 && txData.vin && txData.vin.length > 0) {
-      inputs.push(
-        ...txData.vin
-          .filter((input: any) => input.txid && input.vout !== undefined) // Filter out coinbase inputs
-          .map((input: any) => {
-            return {
-              value: input.valueSat,
-              id: `${input.txid}:${input.vout}`,
-              address: input.address,
-            };
-          })
-      );
-    }
-
-    // Process outputs for ALL transactions including coinbase
-    // These are the new UTXOs being created
-    outputs.push(
-      ...txData.vout
-        .map((output: any) => {
-          if (!output.scriptPubKey?.addresses) {
-            return null;
-          }
-          return {
-            value: output.valueSat,
-            address: output.scriptPubKey?.addresses[0],
-            id: `${tx}:${output.n}`,
-            blockHeight: blockHeight,
-            confirmed: true, // Block UTXOs are confirmed
-          };
-        })
-        .filter((output: any) => output !== null)
-    );
-  }
-
-  // First, try to mark any existing mempool UTXOs as confirmed
-  if (outputs.length > 0) {
-    const outputIds = outputs.map((output) => output.id);
-    const confirmedCount = await markUTXOsAsConfirmed(outputIds, blockHeight);
-    if (confirmedCount > 0) {
-      console.log(`Marked ${confirmedCount} mempool UTXOs as confirmed`);
-    }
-
-    // Then save the UTXOs (will skip duplicates that were just confirmed)
-    logger(`saving ${outputs.length} utxos`);
-    await saveUTXOs(outputs);
+// How far back a chain reorganization can be undone
+const MAX_REORG_DEPTH = parseInt(process.env.MAX_REORG_DEPTH || "100");
+// How long to wait for a new block once we are caught up with the node
+const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || "10000");
+// zcashd ZMQ endpoints publishing hashblock and rawtx, polling only if unset
+const ZMQ_URLS = (process.env.ZCASH_ZMQ_URL || "")
+  .split(",")
+  .map((url) => url.trim())
+  .filter((url) => url.length > 0);
+// Where processes without the api role serve /health and /metrics
+const MONITORING_PORT = parseInt(process.env.MONITORING_PORT || "3041");
+// How long a shutdown may take before the process exits regardless
+const SHUTDOWN_TIMEOUT_MS = parseInt(
+  process.env.SHUTDOWN_TIMEOUT_MS || "30000"
+);
+
+// Apply a block, logging how long it took; waitedMs is how long the indexer
+// waited on the prefetch workers for it
+const indexUTXOs = async (block: ParsedBlock, waitedMs: number) => {
+  const { height: blockHeight } = block;
+
+  // The block must build on the one we indexed below it, otherwise the chain
+  // was reorganized underneath us and the caller has to roll back first
+  const parent = await getIndexedBlock(blockHeight - 1);
+  if (parent && parent.hash !== block.previousBlockHash) {
+    return false;
   }
 
-  if (inputs.length > 0) {
-    console.log(`Cleaning up ${inputs.length} spent utxos`);
-    const inputIds = inputs.map((input) => input.id);
-
-    // Delete mempool UTXOs that are being spent
-    const mempoolDeleted = await deleteMempoolUTXOs(inputIds);
-    if (mempoolDeleted > 0) {
-      console.log(`Deleted ${mempoolDeleted} spent mempool UTXOs`);
-    }
-
-    // Delete confirmed UTXOs that are being spent
-    const deletedCount = await batchDeleteSpentUTXOs(inputIds);
-    console.log(`Deleted ${deletedCount} spent confirmed UTXOs`);
-  }
+  // Outputs, spends and the checkpoint are committed together
+  const startedAt = Date.now();
+  const endTimer = blockApplySeconds.startTimer();
+  const { createdCount, confirmedCount, spentCount } = await applyBlock(block);
+  endTimer();
+  blocksIndexed.inc();
+  indexedHeight.set(blockHeight);
+  log.info("Indexed block", {
+    blockHash: block.hash,
+    outputs: block.outputs.length,
+    inputs: block.inputs.length,
+    created: createdCount,
+    confirmed: confirmedCount,
+    spent: spentCount,
+    waitMs: waitedMs,
+    applyMs: Date.now() - startedAt,
+  });
+
+  return true;
 };
 
-const sleep = async (ms: number) => {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-};
+let wakeIndexer: (() => void) | null = null;
+
+// Wait for the next poll, or less if a block notification arrives first
+const waitForNextBlock = (lease: Lease) =>
+  lease.sleep(POLL_INTERVAL_MS, (wake) => (wakeIndexer = wake));
 
 let currentBlockHeight = 0;
 let latestBlockHeight = 0;
@@ -112,101 +110,233 @@ const getIndexingHeight = async () => {
   return START_HEIGHT;
 };
 
-const initialize = async () => {
-  const latestBlock = await getlatestBlock();
+// Walk back from the given height until our indexed block matches the node's
+const findForkHeight = async (height: number) => {
+  for (let h = height; h > height - MAX_REORG_DEPTH; h--) {
+    const indexed = await getIndexedBlock(h);
+    // Nothing indexed this deep, so there is nothing left to compare against
+    if (!indexed) return h;
 
-  if (!latestBlock.result) throw new Error("Failed to fetch latest block");
+    const blockHash = await getBlockHash(h);
+    if (blockHash === indexed.hash) return h;
+  }
 
-  latestBlockHeight = latestBlock.result;
+  throw new Error(
+    `Chain reorganization deeper than ${MAX_REORG_DEPTH} blocks below ${height}`
+  );
+};
 
-  if (currentBlockHeight === 0) {
-    const checkpoint = await getIndexingHeight();
-    logger(`Starting to index utxos for Zcash from block ${checkpoint}`);
-    currentBlockHeight = checkpoint;
-  }
+const handleReorg = async (blockHeight: number) => {
+  const forkHeight = await findForkHeight(blockHeight - 1);
+  log.warn("Chain reorganization detected", { blockHeight, forkHeight });
+
+  const undoneCount = await rollbackBlocks(forkHeight + 1);
+
+  currentBlockHeight = forkHeight + 1;
+  log.warn("Rolled back blocks, re-indexing", {
+    undone: undoneCount,
+    fromHeight: currentBlockHeight,
+  });
 };
 
-let isIndexing = true;
+const initialize = async () => {
+  latestBlockHeight = await getlatestBlock();
+
+  // The checkpoint is the source of truth, the admin CLI may have moved it
+  const checkpoint = await getIndexingHeight();
 
-const startIndexing = async () => {
   if (currentBlockHeight === 0) {
-    logger("Indexer loaded successfully, starting indexing job...");
+    log.info("Starting to index UTXOs", { fromHeight: checkpoint });
+
+    // Databases indexed before balances existed get them counted once
+    if (await balancesNeedRebuild()) {
+      log.info("Building address balances from the indexed UTXOs");
+      await rebuildBalances();
+    }
+
+    // Refetching every older block is left to the CLI
+    const backfill = await getBackfillRange();
+    if (backfill) {
+      log.warn(
+        "Outputs were indexed without their script, run npm run cli -- backfill-outputs",
+        backfill
+      );
+    }
+  } else if (checkpoint !== currentBlockHeight) {
+    log.info("Indexing checkpoint moved, resuming there", {
+      fromHeight: checkpoint,
+    });
   }
 
-  await initialize();
+  currentBlockHeight = checkpoint;
+  setTipHeight(checkpoint - 1);
+  indexedHeight.set(checkpoint - 1);
+  nodeHeight.set(latestBlockHeight);
+};
 
-  while (latestBlockHeight > currentBlockHeight && isIndexing) {
-    // Calculate how many blocks to process in this batch
-    const remainingBlocks = latestBlockHeight - currentBlockHeight;
-    const batchSize = Math.min(BATCH_SIZE, remainingBlocks);
+// Apply blocks up to (not including) toHeight strictly in order, while the
+// prefetch workers fetch and parse the blocks ahead of the cursor. Stops after
+// the block being applied once the lease ends.
+const indexBlocks = async (lease: Lease, toHeight: number) => {
+  const blocks = prefetchBlocks(currentBlockHeight, toHeight, fetchBlock, {
+    concurrency: INDEXER_CONCURRENCY,
+    depth: INDEXER_PREFETCH_DEPTH,
+  });
+
+  log.info("Indexing blocks", {
+    fromHeight: currentBlockHeight,
+    toHeight: toHeight - 1,
+  });
+
+  try {
+    let waitingSince = Date.now();
+    for await (const block of blocks) {
+      if (!lease.active) break;
+
+      // Everything logged while applying the block carries its height
+      const indexed = await withLogContext({ blockHeight: block.height }, () =>
+        indexUTXOs(block, Date.now() - waitingSince)
+      );
+      if (!indexed) {
+        // Drop the prefetched blocks and re-index the new branch from the fork
+        await handleReorg(block.height);
+        return;
+      }
 
-    // Create array of block heights to process
-    const blockHeights = Array.from(
-      { length: batchSize },
-      (_, i) => currentBlockHeight + i
-    );
+      currentBlockHeight = block.height + 1;
+      waitingSince = Date.now();
+    }
+  } catch (error) {
+    // Someone else (the admin CLI) rolled back or applied blocks; drop the
+    // prefetched blocks, the next round resumes from the checkpoint
+    if (!(error instanceof CheckpointMovedError)) throw error;
+    log.warn(`${error.message}, resuming from the checkpoint`);
+  }
+};
 
-    logger(
-      `Processing batch of ${batchSize} blocks: ${blockHeights[0]} to ${
-        blockHeights[batchSize - 1]
-      }`
-    );
+// Index blocks for as long as this process holds the indexer lease
+const startIndexing = async (lease: Lease) => {
+  log.info("Indexing job started");
+  // The last holder of the lease may have left the checkpoint anywhere
+  currentBlockHeight = 0;
 
+  while (lease.active) {
     try {
-      // Process blocks sequentially to avoid race conditions
-      // (UTXOs created in block N might be spent in block N+1)
-      for (const height of blockHeights) {
-        logger(`Indexing block ${height}`);
-        await indexUTXOs(height);
-        logger(`Successfully indexed block ${height}`);
-      }
-
-      // Update current block height after successful batch processing
-      currentBlockHeight += batchSize;
+      await initialize();
 
-      // Update the checkpoint after the entire batch is processed
-      await updateIndexingCheckpoint(currentBlockHeight);
-      logger(`Batch complete. Updated checkpoint to ${currentBlockHeight}`);
+      while (latestBlockHeight >= currentBlockHeight && lease.active) {
+        await indexBlocks(lease, latestBlockHeight + 1);
 
-      await sleep(1000);
+        // More blocks may have arrived while we were catching up
+        await initialize();
+      }
     } catch (error) {
-      logger(
-        `Error processing batch starting at block ${currentBlockHeight}: ${error}`
-      );
-      throw error;
+      // An unreachable node is transient, try again on the next poll
+      if (!(error instanceof RpcTransportError)) {
+        log.error("Error indexing blocks", {
+          blockHeight: currentBlockHeight,
+          error,
+        });
+        throw error;
+      }
+      log.warn("Node unreachable", { blockHeight: currentBlockHeight, error });
     }
-  }
 
-  if (!isIndexing) {
-    logger("Indexing job stopped, exiting...");
-    process.exit(0);
+    // Only wait once we are caught up, never while behind the node
+    await waitForNextBlock(lease);
   }
 
-  logger("Waiting for 10 seconds before refetching the latest block...");
- 
-  await sleep(10 * 1000); //wait for 10 seconds before restarting the indexing
-  await startIndexing(); //restart the indexing
+  log.info("Indexing job stopped");
 };
 
-mempoolScanner().catch((error) => {
-  logger(`Error starting mempool scanner: ${error}`);
-  process.exit(1);
-});
-startIndexing().catch((error) => {
-  logger(`Error starting indexing: ${error}`);
-  process.exit(1);
-});
+// The block indexer and what depends on being the only one writing blocks
+const runIndexer = (lease: Lease) =>
+  Promise.all([
+    startIndexing(lease),
+    startWebhookDispatcher(lease),
+    startVerificationSchedule(lease),
+  ]).then(() => undefined);
+
+let mempoolLease: Lease | null = null;
+
+const runMempoolScanner = async (lease: Lease) => {
+  mempoolLease = lease;
+  try {
+    await mempoolScanner(lease);
+  } finally {
+    mempoolLease = null;
+  }
+};
 
-//handle SIGINT and SIGTERM
+log.info("Starting", { roles: ROLES });
 
-process.on("SIGINT", () => {
-  logger("SIGINT received, stopping indexing job...");
-  isIndexing = false;
-  process.exit(0);
-});
+const stopEventBridge = startEventBridge();
+const stopServer = hasRole("api")
+  ? startServer()
+  : startMonitoringServer(MONITORING_PORT);
+
+const workers = [
+  hasRole("indexer") ? runWithLease("indexer", runIndexer) : null,
+  hasRole("mempool") ? runWithLease("mempool", runMempoolScanner) : null,
+].flatMap((worker) => (worker ? [worker] : []));
 
-process.on("SIGTERM", () => {
-  logger("SIGTERM received, stopping indexing job...");
-  isIndexing = false;
-  process.exit(0);
+workers.forEach(({ running }) => {
+  running.catch((error) => {
+    log.error("Error running a worker", { error });
+    process.exit(1);
+  });
 });
+
+// Only the holder of a lease acts on the notifications for it; the others
+// are woken for nothing, which is harmless
+if (ZMQ_URLS.length > 0 && workers.length > 0) {
+  subscribeToNode(ZMQ_URLS, {
+    onHashBlock: () => wakeIndexer?.(),
+    onRawTx: (rawTx) => {
+      if (!mempoolLease?.active) return;
+      handleRawTransaction(rawTx).catch((error) => {
+        log.error("Error processing ZMQ transaction", { error });
+      });
+    },
+    onMissed: () => {
+      wakeIndexer?.();
+      wakeMempoolScanner();
+    },
+  }).catch((error) => {
+    log.warn("ZMQ notifications stopped, falling back to polling", { error });
+  });
+}
+
+let shuttingDown = false;
+
+// Stop taking requests, let the workers finish what they are writing and give
+// up their leases, then close the database connection
+const shutdown = async (signal: string) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  log.info("Shutting down", { signal });
+
+  setTimeout(() => {
+    log.error("Shutdown took too long, exiting", {
+      timeoutMs: SHUTDOWN_TIMEOUT_MS,
+    });
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  try {
+    await Promise.all([
+      stopServer(SHUTDOWN_TIMEOUT_MS / 2),
+      ...workers.map(({ stop }) => stop()),
+    ]);
+    await stopEventBridge();
+    await closeDB();
+    log.info("Shut down cleanly");
+    process.exit(0);
+  } catch (error) {
+    log.error("Error shutting down", { error });
+    process.exit(1);
+  }
+};
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
@@ -0,0 +1,170 @@
+import { randomBytes } from "crypto";
+import { hostname } from "os";
+import { acquireLease, releaseLease } from "./db";
+import { createLogger } from "./logger";
+
+const log = createLogger("lease");
+
+// How long a lease lasts without being renewed, i.e. how long a standby waits
+// before taking over from a process that died. Holders' clocks must agree to
+// well within this.
+const LEASE_TTL_MS = parseInt(process.env.LEASE_TTL_MS || "30000");
+// How often the holder renews its lease and a standby tries to take it
+const LEASE_RENEW_INTERVAL_MS = parseInt(
+  process.env.LEASE_RENEW_INTERVAL_MS || String(LEASE_TTL_MS / 3)
+);
+
+// Identifies this process as the holder of a lease
+export const PROCESS_ID = `${hostname()}:${process.pid}:${randomBytes(
+  4
+).toString("hex")}`;
+
+export type Lease = {
+  readonly name: string;
+  // False once the lease is lost or given up, the worker should return then
+  readonly active: boolean;
+  // Wait ms, or less if the lease ends first. setWake is handed a function
+  // that cuts the wait short, and null once the wait is over.
+  sleep: (
+    ms: number,
+    setWake?: (wake: (() => void) | null) => void
+  ) => Promise<void>;
+};
+
+const createLease = (name: string) => {
+  let active = true;
+  const waits = new Set<() => void>();
+
+  const lease: Lease = {
+    name,
+    get active() {
+      return active;
+    },
+    sleep: (ms, setWake) =>
+      new Promise<void>((resolve) => {
+        if (!active) return resolve();
+        const done = () => {
+          clearTimeout(timer);
+          waits.delete(done);
+          setWake?.(null);
+          resolve();
+        };
+        const timer = setTimeout(done, ms);
+        waits.add(done);
+        setWake?.(done);
+      }),
+  };
+
+  const end = () => {
+    active = false;
+    waits.forEach((done) => done());
+  };
+
+  return { lease, end };
+};
+
+// Renew the lease until it ends. It is given up once another process has
+// taken it, or once it may have expired because renewals kept failing.
+const keepRenewing = async (lease: Lease, end: () => void) => {
+  let renewedAt = Date.now();
+
+  while (true) {
+    await lease.sleep(LEASE_RENEW_INTERVAL_MS);
+    if (!lease.active) return;
+
+    const attemptedAt = Date.now();
+    try {
+      if (await acquireLease(lease.name, PROCESS_ID, LEASE_TTL_MS)) {
+        renewedAt = attemptedAt;
+        continue;
+      }
+      log.warn("Lost the lease to another process", { lease: lease.name });
+    } catch (error) {
+      log.error("Error renewing the lease", { lease: lease.name, error });
+      if (Date.now() - renewedAt + LEASE_RENEW_INTERVAL_MS < LEASE_TTL_MS) {
+        continue;
+      }
+      log.warn("The lease is about to expire, giving it up", {
+        lease: lease.name,
+      });
+    }
+    end();
+    return;
+  }
+};
+
+// Run worker while this process holds the named lease, standing by while
+// another process does, so only one process at a time runs it. The worker is
+// started again whenever the lease is taken back after losing it. Returns the
+// function that stops: it ends the lease, waits for the worker to return and
+// releases the lease for a standby to take over right away.
+export const runWithLease = (
+  name: string,
+  worker: (lease: Lease) => Promise<void>
+) => {
+  let stopping = false;
+  let endLease: (() => void) | null = null;
+  let wakeStandby: (() => void) | null = null;
+
+  const standBy = () =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, LEASE_RENEW_INTERVAL_MS);
+      wakeStandby = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+
+  const run = async () => {
+    let standingBy = false;
+
+    while (!stopping) {
+      let acquired = false;
+      try {
+        acquired = await acquireLease(name, PROCESS_ID, LEASE_TTL_MS);
+      } catch (error) {
+        log.error("Error acquiring the lease", { lease: name, error });
+      }
+
+      if (!acquired || stopping) {
+        if (acquired) await releaseLease(name, PROCESS_ID);
+        if (!acquired && !standingBy) {
+          log.info("Another process holds the lease, standing by", {
+            lease: name,
+          });
+          standingBy = true;
+        }
+        if (!stopping) await standBy();
+        continue;
+      }
+
+      standingBy = false;
+      log.info("Acquired the lease", { lease: name });
+      const { lease, end } = createLease(name);
+      endLease = end;
+      const renewing = keepRenewing(lease, end);
+
+      try {
+        await worker(lease);
+      } finally {
+        end();
+        endLease = null;
+        await renewing;
+        await releaseLease(name, PROCESS_ID).catch((error) => {
+          log.error("Error releasing the lease", { lease: name, error });
+        });
+      }
+    }
+  };
+
+  const running = run();
+
+  const stop = async () => {
+    stopping = true;
+    endLease?.();
+    wakeStandby?.();
+    await running;
+  };
+
+  return { running, stop };
+};
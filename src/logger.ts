@@ -1,3 +1,128 @@
-export const logger = (message: string) => {
-  console.log(`[${new Date().toISOString()}] ${message}`);
+import { AsyncLocalStorage } from "async_hooks";
+import dotenv from "dotenv";
+
+// The level and format are read on import, which can come before any other
+// module loaded .env; quiet keeps stdout to log entries
+dotenv.config({ quiet: true });
+
+// Structured logs, one entry per line on stdout:
+// {"time":"...","level":"info","module":"indexer","msg":"...", ...context}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogContext = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const parseLevel = (value: string | undefined): LogLevel =>
+  value && value in LEVELS ? (value as LogLevel) : "info";
+
+// Entries below LOG_LEVEL are dropped
+const LOG_LEVEL = parseLevel(process.env.LOG_LEVEL?.toLowerCase());
+// json (default), or pretty for reading in a terminal
+const LOG_FORMAT = process.env.LOG_FORMAT === "pretty" ? "pretty" : "json";
+
+// Context of what the current async call chain is doing, e.g. the HTTP
+// request or the block being indexed, added to every entry logged inside it
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+// Run fn with context added to every entry it logs, on top of the context
+// it runs in already
+export const withLogContext = <T>(context: LogContext, fn: () => T) =>
+  contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+
+// Errors don't serialize to JSON by themselves
+const toLogValue = (value: unknown) => {
+  if (!(value instanceof Error)) return value;
+  return {
+    name: value.name,
+    message: value.message,
+    ...("code" in value && value.code !== undefined && { code: value.code }),
+    ...(LEVELS[LOG_LEVEL] <= LEVELS.debug && { stack: value.stack }),
+  };
+};
+
+const formatPretty = (entry: LogContext) => {
+  const { time, level, module, msg, ...context } = entry;
+  const fields = Object.entries(context).map(
+    ([key, value]) =>
+      `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`
+  );
+  return [
+    time,
+    String(level).toUpperCase().padEnd(5),
+    `[${module}]`,
+    msg,
+    ...fields,
+  ].join(" ");
+};
+
+const write = (
+  level: LogLevel,
+  module: string,
+  msg: string,
+  context: LogContext
+) => {
+  if (LEVELS[level] < LEVELS[LOG_LEVEL]) return;
+
+  const entry: LogContext = {
+    time: new Date().toISOString(),
+    level,
+    module,
+    msg,
+  };
+  for (const [key, value] of Object.entries({
+    ...contextStorage.getStore(),
+    ...context,
+  })) {
+    if (value !== undefined) entry[key] = toLogValue(value);
+  }
+
+  let line: string;
+  try {
+    line =
+      LOG_FORMAT === "pretty" ? formatPretty(entry) : JSON.stringify(entry);
+  } catch {
+    // e.g. a circular value in the context, the entry goes out without it
+    line = JSON.stringify({
+      time: entry.time,
+      level,
+      module,
+      msg,
+      context: "unserializable",
+    });
+  }
+  process.stdout.write(`${line}\n`);
+};
+
+export type Logger = {
+  debug: (msg: string, context?: LogContext) => void;
+  info: (msg: string, context?: LogContext) => void;
+  warn: (msg: string, context?: LogContext) => void;
+  error: (msg: string, context?: LogContext) => void;
+  // A logger adding context to every entry
+  child: (context: LogContext) => Logger;
+};
+
+// A logger for one module, e.g. createLogger("indexer")
+export const createLogger = (
+  module: string,
+  baseContext: LogContext = {}
+): Logger => {
+  const log =
+    (level: LogLevel) =>
+    (msg: string, context: LogContext = {}) =>
+      write(level, module, msg, { ...baseContext, ...context });
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (context) => createLogger(module, { ...baseContext, ...context }),
+  };
 };
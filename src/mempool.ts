@@ -1,28 +1,65 @@
 import {
-  batchDeleteSpentUTXOs,
-  deleteMempoolUTXOs,
+  getIndexingCheckpoint,
+  getTrackedMempoolTxids,
+  isTransactionConfirmed,
+  markUTXOsAsPendingSpent,
+  revertMempoolTransaction,
   saveMempoolUTXOs,
 } from "./db";
-import { getRawMemPool, getTransaction } from "./rpc";
+import {
+  decodeRawTransaction,
+  getRawMemPool,
+  getTransaction,
+  getTransactions,
+} from "./rpc";
+import { setTipHeight } from "./events";
+import type { Lease } from "./lease";
+import { createLogger, withLogContext } from "./logger";
+import { mempoolTransactions } from "./metrics";
+import { parseScriptPubKey } from "./scripts";
+import { UTXOSpend } from "./types";
+
+const log = createLogger("mempool");
+
+// How often the whole mempool is diffed; with ZMQ notifications this is only
+// the reconciliation path and can be much longer
+const MEMPOOL_POLL_INTERVAL_MS = parseInt(
+  process.env.MEMPOOL_POLL_INTERVAL_MS || "5000"
+);
 
 // Track processed transactions to avoid re-processing
 const processedTxs = new Set<string>();
+// Transactions currently being written, by the poller or a notification
+const processingTxs = new Set<string>();
 
-const extractMempoolUTXOs = async (txId: string) => {
-  try {
-    const txData = await getTransaction(txId);
+let wakeScanner: (() => void) | null = null;
+
+// Cut the wait before the next full scan short
+export const wakeMempoolScanner = () => wakeScanner?.();
 
+const waitForNextScan = (lease: Lease) =>
+  lease.sleep(MEMPOOL_POLL_INTERVAL_MS, (wake) => (wakeScanner = wake));
+
+const extractMempoolUTXOs = (txId: string, txData: any) => {
+  try {
     const outputs: any[] = [];
-    const inputs: any[] = [];
+    const inputs: UTXOSpend[] = [];
 
     // Extract inputs (UTXOs being spent)
     if (txData.vin && txData.vin.length > 0) {
       inputs.push(
         ...txData.vin
-          .filter((input: any) => input.txid && input.vout !== undefined) // Filter out coinbase
-          .map((input: any) => ({
-            id: `${input.txid}:${input.vout}`,
-          }))
+          .map((input: any, inputIndex: number) => {
+            if (!input.txid || input.vout === undefined) {
+              return null; // Filter out coinbase
+            }
+            return {
+              id: `${input.txid}:${input.vout}`,
+              spentTxid: txId,
+              spentIndex: inputIndex,
+            };
+          })
+          .filter((input: UTXOSpend | null) => input !== null)
       );
     }
 
@@ -31,15 +68,18 @@ const extractMempoolUTXOs = async (txId: string) => {
       outputs.push(
         ...txData.vout
           .map((output: any) => {
-            if (!output.scriptPubKey?.addresses) {
+            const scriptInfo = parseScriptPubKey(output.scriptPubKey);
+            // OP_RETURN outputs can never be spent, they are not UTXOs
+            if (scriptInfo.scriptType === "nulldata") {
               return null;
             }
             return {
-              value: output.valueSat,
-              address: output.scriptPubKey?.addresses[0],
+              value: output.valueSat ?? output.valueZat,
               id: `${txId}:${output.n}`,
+              ...scriptInfo,
               blockHeight: 0, // Mempool transactions don't have a block height yet
               confirmed: false, // Mark as unconfirmed
+              status: "unspent",
             };
           })
           .filter((output: any) => output !== null)
@@ -48,16 +88,101 @@ const extractMempoolUTXOs = async (txId: string) => {
 
     return { outputs, inputs };
   } catch (error) {
-    console.error(`Error extracting mempool UTXOs for tx ${txId}:`, error);
+    log.error("Error extracting mempool UTXOs", { txid: txId, error });
     return { outputs: [], inputs: [] };
   }
 };
 
-const mempoolScanner = async () => {
-  console.log("Mempool scanner started");
+// A transaction that left the mempool without being mined was evicted, expired
+// or lost a conflict, so its pending spends and unconfirmed outputs are undone.
+// Returns false if the transaction turns out to still be in the mempool.
+export const releaseMempoolTransaction = async (txId: string) => {
+  const txData = await getTransaction(txId);
+
+  // Still in the mempool, e.g. it arrived after the mempool listing was taken
+  if (txData && !txData.blockhash) return false;
+
+  // Mined transactions are confirmed by the indexer once it reaches the block
+  if (txData?.blockhash) return true;
+
+  const { restoredCount, removedCount } = await revertMempoolTransaction(txId);
+  if (restoredCount > 0 || removedCount > 0) {
+    mempoolTransactions.inc({ change: "removed" });
+    log.info("Transaction dropped from mempool", {
+      txid: txId,
+      restored: restoredCount,
+      removed: removedCount,
+    });
+  }
+  return true;
+};
+
+// Apply one mempool transaction to the overlay: its outputs become unconfirmed
+// UTXOs and the UTXOs it spends become pending spent
+export const processMempoolTransaction = async (txId: string, txData: any) => {
+  if (processedTxs.has(txId) || processingTxs.has(txId)) return;
+  processingTxs.add(txId);
+
+  try {
+    await withLogContext({ txid: txId }, async () => {
+      const { outputs, inputs } = extractMempoolUTXOs(txId, txData);
+
+      // Save new unconfirmed UTXOs
+      if (outputs.length > 0) {
+        await saveMempoolUTXOs(outputs);
+      }
 
-  while (true) {
+      // Mark ALL UTXOs (confirmed + mempool) that are being spent by this transaction
+      // Once a UTXO is used as input in mempool, it cannot be used again (double-spend protection)
+      if (inputs.length > 0) {
+        const pendingCount = await markUTXOsAsPendingSpent(inputs);
+        if (pendingCount > 0) {
+          log.debug("Marked UTXOs as pending spent", { count: pendingCount });
+        }
+      }
+
+      // Mark transaction as processed
+      processedTxs.add(txId);
+      mempoolTransactions.inc({ change: "added" });
+    });
+  } finally {
+    processingTxs.delete(txId);
+  }
+};
+
+// Handle a raw transaction pushed by a ZMQ rawtx notification without waiting
+// for the next full mempool scan. rawtx also fires for the transactions of
+// every block, those aren't mempool transactions: the coinbase, and any the
+// indexer already applied the block of.
+export const handleRawTransaction = async (rawTx: Buffer) => {
+  const txData = await decodeRawTransaction(rawTx.toString("hex"));
+  if (txData.vin?.some((input: any) => input.coinbase)) return;
+  if (processedTxs.has(txData.txid)) return;
+
+  const outputIds = (txData.vout || []).map(
+    (output: any) => `${txData.txid}:${output.n}`
+  );
+  if (await isTransactionConfirmed(txData.txid, outputIds)) return;
+
+  await processMempoolTransaction(txData.txid, txData);
+};
+
+// Scan the mempool for as long as this process holds the mempool lease
+const mempoolScanner = async (lease: Lease) => {
+  log.info("Mempool scanner started");
+
+  // Pick up the overlay left by a previous run, or by the process that held
+  // the lease before, so transactions dropped meanwhile are released on the
+  // first scan
+  processedTxs.clear();
+  const trackedTxs = await getTrackedMempoolTxids();
+  trackedTxs.forEach((tx) => processedTxs.add(tx));
+
+  while (lease.active) {
     try {
+      // Events carry the indexed tip, which may be another process's to move
+      setTipHeight((await getIndexingCheckpoint()) - 1);
+
       const memPool = await getRawMemPool();
 
       // Remove transactions that are no longer in mempool
@@ -67,57 +192,42 @@ const mempoolScanner = async () => {
       );
 
       if (removedTxs.length > 0) {
-        console.log(
-          `${removedTxs.length} transactions left mempool (likely confirmed)`
-        );
-        removedTxs.forEach((tx) => processedTxs.delete(tx));
+        log.info("Transactions left mempool", { count: removedTxs.length });
+        for (const tx of removedTxs) {
+          if (await releaseMempoolTransaction(tx)) processedTxs.delete(tx);
+        }
       }
 
       // Process new transactions
       const newTxs = memPool.filter((tx: string) => !processedTxs.has(tx));
 
       if (newTxs.length > 0) {
-        console.log(`Processing ${newTxs.length} new mempool transactions`);
-
-        for (const txId of newTxs) {
-          const { outputs, inputs } = await extractMempoolUTXOs(txId);
+        log.info("Processing new mempool transactions", {
+          count: newTxs.length,
+        });
 
-          // Save new unconfirmed UTXOs
-          if (outputs.length > 0) {
-            await saveMempoolUTXOs(outputs);
-          }
+        // Fetch the backlog in batched round trips rather than one tx at a time
+        const txDatas = await getTransactions(newTxs);
 
-          // Delete ALL UTXOs (confirmed + mempool) that are being spent by this transaction
-          // Once a UTXO is used as input in mempool, it cannot be used again (double-spend protection)
-          if (inputs.length > 0) {
-            const inputIds = inputs.map((input) => input.id);
+        for (const [index, txId] of newTxs.entries()) {
+          const txData = txDatas[index];
 
-            // Delete unconfirmed (mempool) UTXOs
-            const mempoolDeleted = await deleteMempoolUTXOs(inputIds);
+          // Left the mempool before we could fetch it
+          if (!txData) continue;
 
-            // Delete confirmed UTXOs
-            const confirmedDeleted = await batchDeleteSpentUTXOs(inputIds);
-
-            const totalDeleted = mempoolDeleted + confirmedDeleted;
-            if (totalDeleted > 0) {
-              console.log(
-                `Tx ${txId}: Deleted ${totalDeleted} spent UTXOs (${confirmedDeleted} confirmed, ${mempoolDeleted} mempool)`
-              );
-            }
-          }
-
-          // Mark transaction as processed
-          processedTxs.add(txId);
+          await processMempoolTransaction(txId, txData);
         }
       }
 
-      // Wait 5 seconds before next scan
-      await new Promise((resolve) => setTimeout(resolve, 5000));
+      // Wait before next scan
+      await waitForNextScan(lease);
     } catch (error) {
-      console.error("Error in mempool scanner:", error);
-      await new Promise((resolve) => setTimeout(resolve, 5000));
+      log.error("Error in mempool scanner", { error });
+      await waitForNextScan(lease);
     }
   }
+
+  log.info("Mempool scanner stopped");
 };
 
 export default mempoolScanner;
@@ -0,0 +1,61 @@
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  register,
+} from "prom-client";
+
+// Prometheus metrics of this process, served by /metrics. Each process only
+// counts what it does itself, scrape every one of them.
+
+collectDefaultMetrics();
+
+export const metricsRegistry = register;
+
+export const blocksIndexed = new Counter({
+  name: "utxo_indexer_blocks_indexed_total",
+  help: "Blocks applied to the index",
+});
+
+export const blockApplySeconds = new Histogram({
+  name: "utxo_indexer_block_apply_seconds",
+  help: "Time to write one block's outputs, spends and checkpoint",
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+});
+
+export const indexedHeight = new Gauge({
+  name: "utxo_indexer_indexed_height",
+  help: "Height of the last indexed block, as last seen by the indexer",
+});
+
+export const nodeHeight = new Gauge({
+  name: "utxo_indexer_node_height",
+  help: "Height of the node's tip, as last seen by the indexer",
+});
+
+export const rpcRequestSeconds = new Histogram({
+  name: "utxo_indexer_rpc_request_seconds",
+  help: "JSON-RPC requests to the node by method, each attempt on its own",
+  labelNames: ["method"],
+  buckets: [0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+});
+
+export const rpcErrors = new Counter({
+  name: "utxo_indexer_rpc_errors_total",
+  help: "Failed JSON-RPC requests by method; transport errors are retried, node errors are the node's answer",
+  labelNames: ["method", "type"],
+});
+
+export const mempoolTransactions = new Counter({
+  name: "utxo_indexer_mempool_transactions_total",
+  help: "Mempool transactions applied to the overlay (added) or undone after leaving the mempool unmined (removed)",
+  labelNames: ["change"],
+});
+
+export const httpRequestSeconds = new Histogram({
+  name: "utxo_indexer_http_request_seconds",
+  help: "HTTP requests by method, matched route and status code",
+  labelNames: ["method", "route", "status"],
+  buckets: [0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+});
@@ -0,0 +1,204 @@
+import express from "express";
+import {
+  countUnspentUTXOs,
+  getIndexedBlock,
+  getIndexingCheckpoint,
+  getTrackedMempoolTxids,
+  pingDB,
+} from "./db";
+import { createLogger } from "./logger";
+import { metricsRegistry } from "./metrics";
+import { probeNodeHeight } from "./rpc";
+
+const log = createLogger("monitoring");
+
+// /health fails once the index is this many blocks behind the node
+const HEALTH_MAX_LAG_BLOCKS = parseInt(
+  process.env.HEALTH_MAX_LAG_BLOCKS || "10"
+);
+// How long /health waits for MongoDB before counting it as down
+const HEALTH_DB_TIMEOUT_MS = parseInt(
+  process.env.HEALTH_DB_TIMEOUT_MS || "5000"
+);
+// The counts in /api/status scan the UTXO collection, they are redone at
+// most this often
+const STATUS_COUNTS_MAX_AGE_MS = parseInt(
+  process.env.STATUS_COUNTS_MAX_AGE_MS || "60000"
+);
+
+type Check = { ok: boolean; latencyMs: number; error?: string };
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, what: string) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`${what} timed out after ${ms}ms`)),
+      ms
+    );
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+// Time a check, which fails by throwing
+const runCheck = async <T>(
+  check: () => Promise<T>
+): Promise<Check & { value?: T }> => {
+  const startedAt = Date.now();
+  try {
+    const value = await check();
+    return { ok: true, latencyMs: Date.now() - startedAt, value };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      error: (error as Error).message,
+    };
+  }
+};
+
+// Whether MongoDB and the node answer and the index keeps up with the node
+export const checkHealth = async () => {
+  const [mongo, node] = await Promise.all([
+    runCheck(() =>
+      withTimeout(
+        (async () => {
+          await pingDB();
+          return (await getIndexingCheckpoint()) - 1;
+        })(),
+        HEALTH_DB_TIMEOUT_MS,
+        "MongoDB"
+      )
+    ),
+    runCheck(probeNodeHeight),
+  ]);
+
+  const lagBlocks =
+    mongo.value !== undefined && node.value !== undefined
+      ? Math.max(node.value - mongo.value, 0)
+      : null;
+  const lag = {
+    ok: lagBlocks !== null && lagBlocks <= HEALTH_MAX_LAG_BLOCKS,
+    blocks: lagBlocks,
+    max: HEALTH_MAX_LAG_BLOCKS,
+  };
+
+  const toCheck = ({ ok, latencyMs, error }: Check) => ({
+    ok,
+    latencyMs,
+    ...(error && { error }),
+  });
+  const ready = mongo.ok && node.ok && lag.ok;
+
+  return {
+    status: ready ? "ok" : "failing",
+    live: true,
+    ready,
+    checks: {
+      mongo: { ...toCheck(mongo), indexedHeight: mongo.value ?? null },
+      node: { ...toCheck(node), height: node.value ?? null },
+      lag,
+    },
+  };
+};
+
+type StatusCounts = {
+  trackedTransactions: number;
+  unspentUTXOs: number;
+  countedAt: Date;
+};
+
+let statusCounts: StatusCounts | null = null;
+let countingStatus: Promise<StatusCounts> | null = null;
+
+// The last counts, counting again once they are too old; concurrent
+// requests share one count
+const getStatusCounts = async () => {
+  const age = statusCounts
+    ? Date.now() - statusCounts.countedAt.getTime()
+    : Infinity;
+  if (age < STATUS_COUNTS_MAX_AGE_MS) return statusCounts!;
+
+  countingStatus ??= (async () => {
+    try {
+      const [tracked, unspentUTXOs] = await Promise.all([
+        getTrackedMempoolTxids(),
+        countUnspentUTXOs(),
+      ]);
+      statusCounts = {
+        trackedTransactions: tracked.length,
+        unspentUTXOs,
+        countedAt: new Date(),
+      };
+      return statusCounts;
+    } finally {
+      countingStatus = null;
+    }
+  })();
+  return countingStatus;
+};
+
+// Where the index stands against the node. The node fields are null while
+// it can't be reached.
+export const getStatus = async () => {
+  const indexedHeight = (await getIndexingCheckpoint()) - 1;
+  const [indexed, node, counts] = await Promise.all([
+    getIndexedBlock(indexedHeight),
+    runCheck(probeNodeHeight),
+    getStatusCounts(),
+  ]);
+  const nodeHeight = node.value ?? null;
+
+  return {
+    indexedHeight,
+    indexedHash: indexed?.hash ?? null,
+    nodeHeight,
+    lag: nodeHeight !== null ? Math.max(nodeHeight - indexedHeight, 0) : null,
+    ...(!node.ok && { nodeError: node.error }),
+    // Timestamp of the last indexed block, unset for blocks indexed before
+    // block times were kept
+    lastBlockTime: indexed?.time
+      ? new Date(indexed.time * 1000).toISOString()
+      : null,
+    mempool: { trackedTransactions: counts.trackedTransactions },
+    utxos: { unspent: counts.unspentUTXOs },
+    countedAt: counts.countedAt.toISOString(),
+  };
+};
+
+// /health, /health/live and /metrics, served by every process: by the API
+// server, or on MONITORING_PORT by processes without the api role
+export const monitoringRouter = express.Router();
+
+// Readiness: 503 while MongoDB or the node is down, or the index lags behind
+monitoringRouter.get("/health", async (req, res) => {
+  const health = await checkHealth();
+  res.status(health.ready ? 200 : 503).json(health);
+});
+
+// Liveness: the process is up and serving requests
+monitoringRouter.get("/health/live", (req, res) => {
+  res.json({ live: true });
+});
+
+monitoringRouter.get("/metrics", async (req, res) => {
+  try {
+    res.set("Content-Type", metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    log.error("Error collecting metrics", { error });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Serve the monitoring routes alone, returns the function that stops
+export const startMonitoringServer = (port: number) => {
+  const app = express();
+  app.use(monitoringRouter);
+  const server = app.listen(port, () => {
+    log.info("Monitoring server is running", { port });
+  });
+
+  return () =>
+    new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+};
@@ -0,0 +1,30 @@
+import { address, networks } from "@bitgo/utxo-lib";
+import { UTXO } from "./types";
+
+// Which chain's address and transaction formats to use: "mainnet" or "testnet"
+export const ZCASH_NETWORK = process.env.ZCASH_NETWORK || "mainnet";
+
+export const network =
+  ZCASH_NETWORK === "testnet" ? networks.zcashTest : networks.zcash;
+
+// Blocks a coinbase output must be buried under before it can be spent
+export const COINBASE_MATURITY = 100;
+
+// 1 in the block that created the output, 0 while it is in the mempool
+export const getConfirmations = (utxo: UTXO, tipHeight: number) =>
+  utxo.confirmed ? Math.max(tipHeight - utxo.blockHeight + 1, 0) : 0;
+
+// Not spent or being spent and, for coinbase outputs, mature for the next
+// block
+export const isSpendable = (utxo: UTXO, tipHeight: number) =>
+  (!utxo.status || utxo.status === "unspent") &&
+  (!utxo.coinbase || getConfirmations(utxo, tipHeight) >= COINBASE_MATURITY);
+
+export const isValidAddress = (encoded: string) => {
+  try {
+    address.toOutputScript(encoded, network);
+    return true;
+  } catch {
+    return false;
+  }
+};
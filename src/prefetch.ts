@@ -0,0 +1,59 @@
+export type PrefetchOptions = {
+  concurrency: number; // fetches running at the same time
+  depth: number; // fetched blocks allowed to wait ahead of the consumer
+};
+
+// Fetch heights [fromHeight, toHeight) with a bounded pool of workers and yield
+// the results strictly in height order. Stopping the iteration early (e.g. on a
+// reorg) discards whatever was prefetched past that point.
+export async function* prefetchBlocks<T>(
+  fromHeight: number,
+  toHeight: number,
+  fetch: (height: number) => Promise<T>,
+  { concurrency, depth }: PrefetchOptions
+): AsyncGenerator<T> {
+  const pending = new Map<number, Promise<T>>();
+  const waiting: (() => void)[] = [];
+  let running = 0;
+  let nextHeight = fromHeight;
+
+  const acquire = async () => {
+    if (running < concurrency) {
+      running++;
+      return;
+    }
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    // Hand the slot straight to the next waiting fetch
+    if (next) next();
+    else running--;
+  };
+
+  const schedule = () => {
+    while (nextHeight < toHeight && pending.size < depth) {
+      const height = nextHeight++;
+      const result = (async () => {
+        await acquire();
+        try {
+          return await fetch(height);
+        } finally {
+          release();
+        }
+      })();
+      // Rejections are surfaced when the height is consumed; this keeps
+      // discarded prefetches from raising unhandled rejections
+      result.catch(() => {});
+      pending.set(height, result);
+    }
+  };
+
+  for (let height = fromHeight; height < toHeight; height++) {
+    schedule();
+    const result = pending.get(height)!;
+    pending.delete(height);
+    yield await result;
+  }
+}
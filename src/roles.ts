@@ -0,0 +1,29 @@
+import dotenv from "dotenv";
+
+dotenv.config({ quiet: true });
+
+// What a process runs: the block indexer (with the webhook dispatcher and the
+// verification schedule), the mempool scanner, the HTTP API
+export type Role = "indexer" | "mempool" | "api";
+
+const ALL_ROLES: Role[] = ["indexer", "mempool", "api"];
+
+// Comma separated, e.g. ROLES=api for an API replica; every role by default
+const parseRoles = (value: string | undefined) => {
+  if (!value?.trim()) return ALL_ROLES;
+
+  const roles = value.split(",").map((role) => role.trim());
+  const unknown = roles.filter((role) => !ALL_ROLES.includes(role as Role));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown roles in ROLES: ${unknown.join(", ")}, use ${ALL_ROLES.join(
+        ", "
+      )}`
+    );
+  }
+  return Array.from(new Set(roles)) as Role[];
+};
+
+export const ROLES = parseRoles(process.env.ROLES);
+
+export const hasRole = (role: Role) => ROLES.includes(role);
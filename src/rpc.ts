@@ -1,98 +1,142 @@
-import axios from "axios";
-import { logger } from "./logger";
 import dotenv from "dotenv";
+import {
+  createRpcClient,
+  isNotFoundError,
+  RpcCall,
+  RpcNodeError,
+} from "./rpcClient";
 
-dotenv.config();
+dotenv.config({ quiet: true });
 
-const rpcUrl = process.env.ZCASH_RPC_URL!;
+// Comma separated list of node URLs, tried in order with health-based failover
+const rpcUrls = (process.env.ZCASH_RPC_URLS || process.env.ZCASH_RPC_URL!)
+  .split(",")
+  .map((url) => url.trim())
+  .filter((url) => url.length > 0);
+// Maximum number of calls sent in a single JSON-RPC batch request
+const RPC_BATCH_SIZE = parseInt(process.env.RPC_BATCH_SIZE || "100");
 
-//fetch the block from the rpc
-export const getBlock = async (blockHeight: number): Promise<any> => {
-  try {
-    const query = {
-      id: 1,
-      method: "getblock",
-      params: [blockHeight.toString()],
-    };
-    const response = await axios.post(rpcUrl, query);
-    return response.data;
-  } catch (error) {
-    logger(`Error fetching block ${blockHeight}, retrying...`);
-    await new Promise((resolve) => setTimeout(resolve, 5000));
-    return await getBlock(blockHeight);
-  }
+const clientOptions = {
+  timeoutMs: parseInt(process.env.RPC_TIMEOUT_MS || "30000"),
+  maxRetries: parseInt(process.env.RPC_MAX_RETRIES || "5"),
+  retryBaseMs: parseInt(process.env.RPC_RETRY_BASE_MS || "500"),
+  retryMaxMs: parseInt(process.env.RPC_RETRY_MAX_MS || "30000"),
+  cooldownMs: parseInt(process.env.RPC_ENDPOINT_COOLDOWN_MS || "30000"),
 };
 
-//fetch the latest block from the rpc
-export const getlatestBlock = async (): Promise<any> => {
-  try {
-    const query = {
-      id: 1,
-      method: "getblockcount",
-      params: [],
-    };
-    const response = await axios.post(rpcUrl, query);
-    return response.data;
-  } catch (error) {
-    logger(`Error fetching latest block, retrying...`);
-    await new Promise((resolve) => setTimeout(resolve, 5000));
-    return await getlatestBlock();
+export const rpcClient = createRpcClient({ urls: rpcUrls, ...clientOptions });
+
+// Broadcasts can go to a dedicated node, by default they use the indexing nodes
+const txSenderClient = createRpcClient({
+  urls: process.env.TX_SENDER ? [process.env.TX_SENDER] : rpcUrls,
+  ...clientOptions,
+});
+
+// gettxoutsetinfo walks the node's whole UTXO set and takes minutes on mainnet
+const utxoSetClient = createRpcClient({
+  urls: rpcUrls,
+  ...clientOptions,
+  timeoutMs: parseInt(process.env.RPC_UTXO_SET_TIMEOUT_MS || "600000"),
+});
+
+// Health and status checks want a quick answer, not retries
+const probeClient = createRpcClient({
+  urls: rpcUrls,
+  ...clientOptions,
+  timeoutMs: parseInt(process.env.HEALTH_RPC_TIMEOUT_MS || "5000"),
+  maxRetries: 0,
+});
+
+// Send several JSON-RPC calls as batch arrays of up to RPC_BATCH_SIZE calls.
+// Each entry is the call's result or the RpcNodeError it failed with.
+export const batchRequest = async (calls: RpcCall[]): Promise<any[]> => {
+  const responses: any[] = [];
+
+  for (let start = 0; start < calls.length; start += RPC_BATCH_SIZE) {
+    const chunk = calls.slice(start, start + RPC_BATCH_SIZE);
+    responses.push(...(await rpcClient.batch(chunk)));
   }
+
+  return responses;
+};
+
+//fetch the block from the rpc, with every transaction decoded (verbosity 2)
+export const getBlock = async (blockHeight: number): Promise<any> => {
+  return await rpcClient.call("getblock", [blockHeight.toString(), 2]);
+};
+
+//fetch the latest block height from the rpc
+export const getlatestBlock = async (): Promise<number> => {
+  return await rpcClient.call<number>("getblockcount");
+};
+
+//fetch the hash of the block at a height from the rpc
+export const getBlockHash = async (blockHeight: number): Promise<string> => {
+  return await rpcClient.call<string>("getblockhash", [blockHeight]);
 };
 
+// The node's tip height from a single attempt, for health and status checks
+export const probeNodeHeight = async (): Promise<number> => {
+  return await probeClient.call<number>("getblockcount");
+};
+
+// Fetch a decoded transaction, null if the node doesn't know it
 export const getTransaction = async (txId: string): Promise<any> => {
   try {
-    const query = {
-      id: 1,
-      method: "getrawtransaction",
-      params: [txId, 1],
-    };
-    const response = await axios.post(rpcUrl, query);
-    return response.data.result;
+    return await rpcClient.call("getrawtransaction", [txId, 1]);
   } catch (error) {
-    logger(`Error fetching transaction ${txId}, retrying...`);
-    await new Promise((resolve) => setTimeout(resolve, 5000));
-    return await getTransaction(txId);
+    if (isNotFoundError(error)) return null;
+    throw error;
   }
 };
 
-export const getRawMemPool = async (): Promise<any> => {
-  try {
-    const query = {
-      id: 1,
-      method: "getrawmempool",
-      params: [],
-    };
-
-    const response = await axios.post(rpcUrl, query);
-
-    if (response.data.result) {
-      return response.data.result;
-    }
-    throw response.data.error;
-  } catch (error) {
-    const errorMessage = (error as Error).message;
-    logger(`Error fetching raw mempool, retrying...`);
-    await new Promise((resolve) => setTimeout(resolve, 5000));
-    return await getRawMemPool();
-  }
+// Fetch several decoded transactions in batched round trips, null for the ones
+// the node doesn't know
+export const getTransactions = async (txIds: string[]): Promise<any[]> => {
+  const responses = await batchRequest(
+    txIds.map((txId) => ({ method: "getrawtransaction", params: [txId, 1] }))
+  );
+  return responses.map((response) => {
+    if (isNotFoundError(response)) return null;
+    if (response instanceof RpcNodeError) throw response;
+    return response;
+  });
+};
+
+// Decode a raw transaction hex, e.g. one pushed over ZMQ
+export const decodeRawTransaction = async (rawTx: string): Promise<any> => {
+  return await rpcClient.call("decoderawtransaction", [rawTx]);
+};
+
+//fetch the hash of the node's chain tip from the rpc
+export const getBestBlockHash = async (): Promise<string> => {
+  return await rpcClient.call<string>("getbestblockhash");
+};
+
+// Fetch outputs from the node's UTXO set at its tip, mempool spends left out,
+// in batched round trips. null for the ones that are spent or unknown.
+export const getTxOuts = async (ids: string[]): Promise<any[]> => {
+  const responses = await batchRequest(
+    ids.map((id) => {
+      const [txid, vout] = id.split(":");
+      return { method: "gettxout", params: [txid, parseInt(vout), false] };
+    })
+  );
+  return responses.map((response) => {
+    if (response instanceof RpcNodeError) throw response;
+    return response ?? null;
+  });
+};
+
+// Totals of the node's UTXO set at its tip
+export const getTxOutSetInfo = async (): Promise<any> => {
+  return await utxoSetClient.call("gettxoutsetinfo");
+};
+
+export const getRawMemPool = async (): Promise<string[]> => {
+  return await rpcClient.call<string[]>("getrawmempool");
 };
 
 export const sendTransaction = async (transaction: string) => {
-  try {
-    const query = {
-      id: 1,
-      method: "sendrawtransaction",
-      params: [transaction],
-    };
-    const response = await axios.post(process.env.TX_SENDER!, query);
-    if (response.data.result) {
-      return response.data.result;
-    }
-    throw response.data.error;
-  } catch (error) {
-    const errorMessage = (error as Error).message;
-    throw errorMessage;
-    logger(`Error sending transaction, retrying...`);
-  }
+  return await txSenderClient.call<string>("sendrawtransaction", [transaction]);
 };
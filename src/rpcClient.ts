@@ -0,0 +1,206 @@
+import axios from "axios";
+import { createLogger } from "./logger";
+import { rpcErrors, rpcRequestSeconds } from "./metrics";
+
+const log = createLogger("rpc");
+
+// JSON-RPC error codes zcashd uses for the failures callers care about
+export const RPC_ERROR_CODES = {
+  MISC_ERROR: -1,
+  INVALID_ADDRESS_OR_KEY: -5, // block or transaction not found
+  INVALID_PARAMETER: -8, // e.g. block height out of range
+  IN_WARMUP: -28,
+  VERIFY_ERROR: -25,
+  VERIFY_REJECTED: -26,
+  VERIFY_ALREADY_IN_CHAIN: -27,
+};
+
+// The node could not be reached or didn't answer in time
+export class RpcTransportError extends Error {
+  constructor(message: string, public readonly method: string) {
+    super(message);
+    this.name = "RpcTransportError";
+  }
+}
+
+// The node answered with a JSON-RPC error object
+export class RpcNodeError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number,
+    public readonly method: string
+  ) {
+    super(message);
+    this.name = "RpcNodeError";
+  }
+}
+
+export const isNotFoundError = (error: unknown) =>
+  error instanceof RpcNodeError &&
+  (error.code === RPC_ERROR_CODES.INVALID_ADDRESS_OR_KEY ||
+    error.code === RPC_ERROR_CODES.INVALID_PARAMETER);
+
+export type RpcCall = {
+  method: string;
+  params: any[];
+};
+
+export type RpcClientOptions = {
+  urls: string[]; // tried in order, skipping endpoints that recently failed
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  cooldownMs: number; // how long a failed endpoint is skipped
+};
+
+type Endpoint = {
+  url: string;
+  failures: number;
+  unhealthyUntil: number;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toNodeError = (error: any, method: string) =>
+  new RpcNodeError(
+    error?.message || "Unknown node error",
+    error?.code ?? RPC_ERROR_CODES.MISC_ERROR,
+    method
+  );
+
+// Node errors are final except while the node is still warming up
+const isRetryable = (error: unknown) =>
+  error instanceof RpcTransportError ||
+  (error instanceof RpcNodeError && error.code === RPC_ERROR_CODES.IN_WARMUP);
+
+export const createRpcClient = (options: RpcClientOptions) => {
+  const endpoints: Endpoint[] = options.urls.map((url) => ({
+    url,
+    failures: 0,
+    unhealthyUntil: 0,
+  }));
+
+  // The first healthy endpoint, or the one whose cooldown ends soonest
+  const pickEndpoint = () => {
+    const now = Date.now();
+    const healthy = endpoints.find(
+      (endpoint) => endpoint.unhealthyUntil <= now
+    );
+    if (healthy) return healthy;
+    return endpoints.reduce((best, endpoint) =>
+      endpoint.unhealthyUntil < best.unhealthyUntil ? endpoint : best
+    );
+  };
+
+  const post = async (endpoint: Endpoint, body: any, method: string) => {
+    try {
+      const response = await axios.post(endpoint.url, body, {
+        timeout: options.timeoutMs,
+        // zcashd answers node errors with HTTP 500 and a JSON-RPC error body
+        validateStatus: () => true,
+      });
+      // e.g. 401 on bad credentials, or a proxy's HTML error page
+      if (typeof response.data !== "object" || response.data === null) {
+        throw new Error(`HTTP ${response.status} without a JSON-RPC body`);
+      }
+
+      endpoint.failures = 0;
+      endpoint.unhealthyUntil = 0;
+      return response.data;
+    } catch (error) {
+      endpoint.failures++;
+      endpoint.unhealthyUntil = Date.now() + options.cooldownMs;
+      throw new RpcTransportError(
+        `${method} failed against ${new URL(endpoint.url).host}: ${
+          (error as Error).message
+        }`,
+        method
+      );
+    }
+  };
+
+  // label names the request in metrics, where method may vary too much
+  const withRetries = async <T>(
+    method: string,
+    send: (endpoint: Endpoint) => Promise<T>,
+    label = method
+  ): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      const endTimer = rpcRequestSeconds.startTimer({ method: label });
+      try {
+        const result = await send(pickEndpoint());
+        endTimer();
+        return result;
+      } catch (error) {
+        endTimer();
+        rpcErrors.inc({
+          method: label,
+          type: error instanceof RpcNodeError ? "node" : "transport",
+        });
+        if (!isRetryable(error) || attempt >= options.maxRetries) throw error;
+
+        const delay = Math.min(
+          options.retryBaseMs * 2 ** attempt,
+          options.retryMaxMs
+        );
+        log.warn("RPC request failed, retrying", {
+          method: label,
+          error,
+          delayMs: delay,
+          attempt: attempt + 1,
+          maxRetries: options.maxRetries,
+        });
+        await sleep(delay);
+      }
+    }
+  };
+
+  const call = async <T = any>(method: string, params: any[] = []) =>
+    withRetries<T>(method, async (endpoint) => {
+      const data = await post(endpoint, { id: 1, method, params }, method);
+      if (data.error) throw toNodeError(data.error, method);
+      return data.result as T;
+    });
+
+  // One HTTP request for all calls. Each entry is either the call's result or
+  // the RpcNodeError the node answered it with, in the order of the calls.
+  const batch = async (calls: RpcCall[]) => {
+    const method = `batch(${calls.length})`;
+    return withRetries(
+      method,
+      async (endpoint) => {
+        const query = calls.map((call, index) => ({
+          id: index,
+          method: call.method,
+          params: call.params,
+        }));
+        const data = await post(endpoint, query, method);
+        if (!Array.isArray(data)) throw toNodeError(data.error, method);
+
+        // The node is free to answer batch entries in any order
+        const byId = new Map<number, any>(
+          data.map((entry) => [entry.id, entry])
+        );
+        return calls.map((call, index) => {
+          const entry = byId.get(index);
+          if (!entry) return toNodeError(null, call.method);
+          if (entry.error) return toNodeError(entry.error, call.method);
+          return entry.result;
+        });
+      },
+      "batch"
+    );
+  };
+
+  const getEndpointHealth = () =>
+    endpoints.map((endpoint) => ({
+      host: new URL(endpoint.url).host,
+      healthy: endpoint.unhealthyUntil <= Date.now(),
+      failures: endpoint.failures,
+    }));
+
+  return { call, batch, getEndpointHealth };
+};
+
+export type RpcClient = ReturnType<typeof createRpcClient>;
@@ -0,0 +1,46 @@
+import { classify, script as bscript } from "@bitgo/utxo-lib";
+import { createHash } from "crypto";
+
+export type ScriptInfo = {
+  script: string; // scriptPubKey hex
+  scriptType: string; // pubkeyhash, scripthash, multisig, nulldata, ...
+  scriptHash: string;
+  addresses: string[];
+  // The one address the output belongs to; outputs with none or several
+  // (bare multisig) are only found by script hash
+  address?: string;
+};
+
+// Electrum-style script hash: the reversed SHA-256 of the scriptPubKey
+export const getScriptHash = (scriptHex: string) =>
+  createHash("sha256")
+    .update(Buffer.from(scriptHex, "hex"))
+    .digest()
+    .reverse()
+    .toString("hex");
+
+// From a scriptPubKey as the node decodes it: { hex, type, addresses }
+export const parseScriptPubKey = (scriptPubKey: any): ScriptInfo => {
+  const script: string = scriptPubKey?.hex || "";
+  const addresses: string[] = scriptPubKey?.addresses || [];
+
+  return {
+    script,
+    scriptType:
+      scriptPubKey?.type || classify.output(Buffer.from(script, "hex")),
+    scriptHash: getScriptHash(script),
+    addresses,
+    ...(addresses.length === 1 && { address: addresses[0] }),
+  };
+};
+
+// The data pushed after OP_RETURN, null for any other script
+export const getOpReturnPayload = (scriptHex: string) => {
+  const script = Buffer.from(scriptHex, "hex");
+  if (classify.output(script) !== classify.types.NULLDATA) return null;
+
+  const chunks = bscript.decompile(script) || [];
+  return Buffer.concat(
+    chunks.slice(1).filter((chunk): chunk is Buffer => Buffer.isBuffer(chunk))
+  ).toString("hex");
+};
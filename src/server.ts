@@ -1,71 +1,1051 @@
 import express from "express";
 import cors from "cors";
-import { getUTXOs } from "./db";
-import { rateLimit } from "express-rate-limit";
+import {
+  countUTXOs,
+  deleteWebhook,
+  getBalance,
+  getAddressTxs,
+  getBalances,
+  getIndexingCheckpoint,
+  getOpReturns,
+  getSelectableUTXOs,
+  getUTXO,
+  getVerificationRun,
+  getVerificationRuns,
+  getWebhook,
+  getWebhookDeliveryLog,
+  listUTXOs,
+  releaseReservation,
+  reserveUTXOs,
+  saveWebhook,
+} from "./db";
 import { sendTransaction } from "./rpc";
+import { RpcNodeError, RpcTransportError } from "./rpcClient";
+import { TransactionRejectedError, validateTransaction } from "./broadcast";
+import { processMempoolTransaction } from "./mempool";
+import { subscribeToAddresses } from "./events";
+import {
+  AddressBalance,
+  AddressTx,
+  UTXO,
+  UTXOListOptions,
+  UTXOOwner,
+  Webhook,
+} from "./types";
+import { checkWebhookUrl, generateWebhookSecret } from "./webhooks";
+import { randomBytes, randomUUID } from "crypto";
+import {
+  COIN_SELECTION_STRATEGIES,
+  CoinSelectionStrategy,
+  FeePolicy,
+  InsufficientFundsError,
+  selectCoins,
+} from "./coinSelection";
+import { getConfirmations, isSpendable, isValidAddress } from "./network";
+import { adminRouter } from "./admin";
+import { startUsageFlush } from "./apiKeys";
+import {
+  authenticate,
+  authorize,
+  getClient,
+  rateLimitByPlan,
+  requirePermission,
+} from "./auth";
+import { createLogger, withLogContext } from "./logger";
+import { httpRequestSeconds } from "./metrics";
+import { getStatus, monitoringRouter } from "./monitoring";
+import {
+  InvalidXpubError,
+  MAX_XPUB_GAP_LIMIT,
+  parseXpub,
+  scanXpub,
+  XPUB_GAP_LIMIT,
+} from "./xpub";
+
+const log = createLogger("api");
 
 const app = express();
 
+// Upper bound on the addresses a single event stream can follow
+const MAX_SUBSCRIPTION_ADDRESSES = parseInt(
+  process.env.MAX_SUBSCRIPTION_ADDRESSES || "1000"
+);
+const MAX_WEBHOOK_ADDRESSES = parseInt(
+  process.env.MAX_WEBHOOK_ADDRESSES || "10000"
+);
+// Upper bound on the addresses of a single multi-address UTXO query
+const MAX_QUERY_ADDRESSES = parseInt(process.env.MAX_QUERY_ADDRESSES || "1000");
+
+const MAX_OP_RETURN_RESULTS = 1000;
+// Largest page of a UTXO listing, also the default
+const MAX_PAGE_SIZE = 10000;
+// Largest page of an address's transaction history, also the default
+const MAX_TX_PAGE_SIZE = 1000;
+// How long coin selection holds on to the inputs it picked when asked to
+const COIN_RESERVATION_SECONDS = parseInt(
+  process.env.COIN_RESERVATION_SECONDS || "60"
+);
+const MAX_COIN_RESERVATION_SECONDS = 600;
+// Selections retried when a concurrent request reserved one of the inputs
+const COIN_RESERVATION_ATTEMPTS = 3;
+
+// Open event streams, ended when the server shuts down
+const eventStreams = new Set<express.Response>();
+
+// Height of the last indexed block, which confirmations are counted from
+const getIndexedTipHeight = async () => (await getIndexingCheckpoint()) - 1;
+
+const toUTXOResponse = (utxo: UTXO, tipHeight: number) => ({
+  value: utxo.value,
+  txid: utxo.id.split(":")[0],
+  vout: parseInt(utxo.id.split(":")[1]),
+  address: utxo.address ?? null,
+  // Outputs indexed before scripts were stored only have their address
+  addresses: utxo.addresses ?? (utxo.address ? [utxo.address] : []),
+  script: utxo.script ?? null,
+  scriptType: utxo.scriptType ?? null,
+  scriptHash: utxo.scriptHash ?? null,
+  blockHeight: utxo.blockHeight,
+  confirmed: utxo.confirmed, // Show if UTXO is confirmed or in mempool
+  coinbase: utxo.coinbase === true,
+  confirmations: getConfirmations(utxo, tipHeight),
+  spendable: isSpendable(utxo, tipHeight),
+});
+
+// Addresses without a balance document were never seen, all zeros
+const toBalanceResponse = (balance: Partial<AddressBalance> | null) => ({
+  confirmed: balance?.confirmed || 0,
+  unconfirmedIncoming: balance?.unconfirmedIncoming || 0,
+  unconfirmedOutgoing: balance?.unconfirmedOutgoing || 0,
+  utxoCount: balance?.utxoCount || 0,
+  totalReceived: balance?.totalReceived || 0,
+  totalSent: balance?.totalSent || 0,
+  firstSeenHeight: balance?.firstSeenHeight ?? null,
+  lastSeenHeight: balance?.lastSeenHeight ?? null,
+});
+
+const sumBalances = (balances: AddressBalance[]) => {
+  const total = toBalanceResponse(null);
+  for (const balance of balances) {
+    total.confirmed += balance.confirmed;
+    total.unconfirmedIncoming += balance.unconfirmedIncoming;
+    total.unconfirmedOutgoing += balance.unconfirmedOutgoing;
+    total.utxoCount += balance.utxoCount;
+    total.totalReceived += balance.totalReceived;
+    total.totalSent += balance.totalSent;
+    if (balance.firstSeenHeight !== undefined) {
+      total.firstSeenHeight = Math.min(
+        total.firstSeenHeight ?? balance.firstSeenHeight,
+        balance.firstSeenHeight
+      );
+    }
+    if (balance.lastSeenHeight !== undefined) {
+      total.lastSeenHeight = Math.max(
+        total.lastSeenHeight ?? balance.lastSeenHeight,
+        balance.lastSeenHeight
+      );
+    }
+  }
+  return total;
+};
+
+type ListQuery = Omit<UTXOListOptions, "tipHeight">;
+
+// Integers from query strings or JSON bodies, undefined when absent
+const toInteger = (value: unknown) => {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && /^-?\d+$/.test(value)) {
+    return parseInt(value);
+  }
+  return NaN;
+};
+
+const toBoolean = (value: unknown) => {
+  if (value === undefined || value === "") return undefined;
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+  return null;
+};
+
+// Cursors are opaque to clients: the sort they belong to and the sort key and
+// id of the last item of the previous page
+const encodeCursor = (options: ListQuery, utxo: UTXO) =>
+  Buffer.from(
+    JSON.stringify({
+      s: options.sort,
+      o: options.order,
+      k: options.sort === "value" ? utxo.value : utxo.blockHeight,
+      i: utxo.id,
+    })
+  ).toString("base64url");
+
+const decodeCursor = (cursor: string, options: ListQuery) => {
+  try {
+    const { s, o, k, i } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString()
+    );
+    if (s !== options.sort || o !== options.order) return null;
+    if (typeof k !== "number" || typeof i !== "string") return null;
+    return { key: k, id: i };
+  } catch {
+    return null;
+  }
+};
+
+// Listing options from query parameters or a request body, or what is wrong
+// with them
+const parseListQuery = (query: Record<string, any>): ListQuery | string => {
+  const options: ListQuery = {
+    sort: query.sort ?? "value",
+    order: query.order ?? "desc",
+    limit: toInteger(query.limit) ?? MAX_PAGE_SIZE,
+    spendableOnly: toBoolean(query.spendable) ?? false,
+    minValue: toInteger(query.minValue),
+    maxValue: toInteger(query.maxValue),
+    minConfirmations: toInteger(query.minConfirmations),
+    confirmed: toBoolean(query.confirmed) ?? undefined,
+    fromHeight: toInteger(query.fromHeight),
+    toHeight: toInteger(query.toHeight),
+  };
+
+  // Listings are paged by keyset, an offset would be silently ignored
+  if (query.offset !== undefined) {
+    return "offset is not supported, pass the nextCursor of the previous page as cursor";
+  }
+  if (options.sort !== "value" && options.sort !== "height") {
+    return "sort must be value or height";
+  }
+  if (options.order !== "asc" && options.order !== "desc") {
+    return "order must be asc or desc";
+  }
+  if (
+    !Number.isInteger(options.limit) ||
+    options.limit < 1 ||
+    options.limit > MAX_PAGE_SIZE
+  ) {
+    return `limit must be between 1 and ${MAX_PAGE_SIZE}`;
+  }
+  for (const field of [
+    "minValue",
+    "maxValue",
+    "minConfirmations",
+    "fromHeight",
+    "toHeight",
+  ] as const) {
+    const value = options[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return `${field} must be a non-negative integer`;
+    }
+  }
+  if (
+    toBoolean(query.spendable) === null ||
+    toBoolean(query.confirmed) === null
+  ) {
+    return "spendable and confirmed must be true or false";
+  }
+  if (query.cursor !== undefined) {
+    const after =
+      typeof query.cursor === "string"
+        ? decodeCursor(query.cursor, options)
+        : null;
+    if (!after) return "cursor is invalid or belongs to another sort order";
+    options.after = after;
+  }
+
+  return options;
+};
+
+// One page of a listing with the total it is part of
+const getUTXOPage = async (owner: UTXOOwner, query: ListQuery) => {
+  const options = { ...query, tipHeight: await getIndexedTipHeight() };
+  const [utxos, total] = await Promise.all([
+    listUTXOs(owner, options),
+    countUTXOs(owner, options),
+  ]);
+
+  return {
+    total,
+    nextCursor:
+      utxos.length === options.limit
+        ? encodeCursor(options, utxos[utxos.length - 1])
+        : null,
+    utxos: utxos.map((utxo) => toUTXOResponse(utxo, options.tipHeight)),
+  };
+};
+
+// Webhook registration as returned by the API, never with its secret
+const toWebhookResponse = (webhook: Webhook) => ({
+  id: webhook.id,
+  url: webhook.url,
+  addresses: webhook.addresses,
+  minConfirmations: webhook.minConfirmations,
+  createdAt: webhook.createdAt,
+});
+
+// Webhooks registered with a key are only there for that key
+const getOwnWebhook = async (id: string, res: express.Response) => {
+  const webhook = await getWebhook(id);
+  if (!webhook) return null;
+  return webhook.apiKeyId === undefined ||
+    webhook.apiKeyId === getClient(res).keyId
+    ? webhook
+    : null;
+};
+
 // If behind a reverse proxy like nginx, make sure to let Express trust the proxy headers
 // This MUST be set before any middleware that uses IP addresses
 app.set("trust proxy", 1);
 
-// Proper rate limit middleware to avoid issues behind proxies (like Nginx)
-const limiter = rateLimit({
-  windowMs: 1 * 1000, // 1 second window
-  max: 100000, // Limit to 100000 requests per window per IP
-  standardHeaders: true, // Send standardized rate limit info in headers
-  legacyHeaders: false, // Disable old X-RateLimit-* headers
-  validate: false, // Disable strict validation for proxy headers
+// Incoming request IDs are kept if they look like one, so a request can be
+// followed from a proxy in front
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+// Probes and scrapes, logged at debug so they don't drown out the rest
+const MONITORING_PATHS = new Set(["/health", "/health/live", "/metrics"]);
+
+// Tag the request with an ID, echoed in the X-Request-Id response header and
+// carried by everything logged while handling it, and log it once answered
+app.use((req, res, next) => {
+  const incoming = req.get("X-Request-Id");
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.locals.requestId = requestId;
+  res.set("X-Request-Id", requestId);
+
+  const startedAt = Date.now();
+  res.on("close", () => {
+    const entry = {
+      requestId,
+      method: req.method,
+      path: req.path,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : "unmatched",
+      status: res.statusCode,
+      durationMs: Date.now() - startedAt,
+      keyId: res.locals.client?.keyId ?? undefined,
+      ip: req.ip,
+    };
+    if (MONITORING_PATHS.has(req.path)) {
+      log.debug("Request", entry);
+    } else {
+      log.info("Request", entry);
+    }
+  });
+
+  withLogContext({ requestId }, next);
 });
 
-app.use(limiter);
-app.use(express.json({ limit: "10mb" }));
+// Body parsing loses the log context, handlers get it back here
+const restoreLogContext: express.RequestHandler = (req, res, next) => {
+  withLogContext({ requestId: res.locals.requestId }, next);
+};
+
+// Latency by matched route, e.g. /api/utxos/:address, so the label values
+// stay few
+app.use((req, res, next) => {
+  const endTimer = httpRequestSeconds.startTimer();
+  res.on("close", () => {
+    endTimer({
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : "unmatched",
+      status: res.statusCode,
+    });
+  });
+  next();
+});
+
+// Probes and scrapes need no API key and are not rate limited
+app.use(monitoringRouter);
+
 app.use(cors({ origin: "*" }));
+// Every other request is made with an API key, or anonymously, and limited
+// by its plan
+app.use(authenticate);
+app.use(rateLimitByPlan);
+app.use(authorize);
+app.use(express.json({ limit: "10mb" }));
+app.use(restoreLogContext);
+
+app.use("/api/admin", adminRouter);
+
+app.get("/api/status", async (req, res) => {
+  try {
+    res.json(await getStatus());
+  } catch (error) {
+    log.error("Error getting status", { error });
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
 
 app.get("/api/utxos/:address", async (req, res) => {
   const { address } = req.params;
-  const limit = parseInt(req.query.limit as string) || 10000;
-  const offset = parseInt(req.query.offset as string) || 0;
+  const options = parseListQuery(req.query);
+  if (typeof options === "string") {
+    res.status(400).json({ error: options });
+    return;
+  }
+
+  try {
+    return res.json(await getUTXOPage({ addresses: [address] }, options));
+  } catch (error) {
+    log.error("Error getting UTXOs", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+app.get("/api/utxos/scripthash/:scriptHash", async (req, res) => {
+  const { scriptHash } = req.params;
+  if (!/^[0-9a-f]{64}$/.test(scriptHash)) {
+    res.status(400).json({ error: "scriptHash must be 64 lowercase hex" });
+    return;
+  }
+  const options = parseListQuery(req.query);
+  if (typeof options === "string") {
+    res.status(400).json({ error: options });
+    return;
+  }
+
   try {
-    const utxos = await getUTXOs(address, limit, offset);
+    return res.json(await getUTXOPage({ scriptHash }, options));
+  } catch (error) {
+    log.error("Error getting UTXOs by script hash", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+app.post("/api/utxos", async (req, res) => {
+  const { addresses, ...query } = req.body || {};
+
+  if (
+    !Array.isArray(addresses) ||
+    addresses.length === 0 ||
+    addresses.length > MAX_QUERY_ADDRESSES ||
+    !addresses.every((address) => typeof address === "string")
+  ) {
+    res.status(400).json({
+      error: `addresses must be a list of 1 to ${MAX_QUERY_ADDRESSES} addresses`,
+    });
+    return;
+  }
+  const options = parseListQuery(query);
+  if (typeof options === "string") {
+    res.status(400).json({ error: options });
+    return;
+  }
 
-    if (!utxos || utxos.length === 0) {
-      res.status(404).json({ error: "No UTXOs found for this address" });
+  try {
+    return res.json(
+      await getUTXOPage(
+        { addresses: Array.from(new Set<string>(addresses)) },
+        options
+      )
+    );
+  } catch (error) {
+    log.error("Error getting UTXOs", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+app.get("/api/xpub/:xpub", async (req, res) => {
+  const { gapLimit: gapLimitParam, ...query } = req.query;
+  const gapLimit = toInteger(gapLimitParam) ?? XPUB_GAP_LIMIT;
+
+  if (
+    !Number.isInteger(gapLimit) ||
+    gapLimit < 1 ||
+    gapLimit > MAX_XPUB_GAP_LIMIT
+  ) {
+    res.status(400).json({
+      error: `gapLimit must be between 1 and ${MAX_XPUB_GAP_LIMIT}`,
+    });
+    return;
+  }
+  const options = parseListQuery(query);
+  if (typeof options === "string") {
+    res.status(400).json({ error: options });
+    return;
+  }
+
+  try {
+    const scan = await scanXpub(parseXpub(req.params.xpub), gapLimit);
+    const addresses = scan.addresses.map((derived) => derived.address);
+
+    const [balances, page] = await Promise.all([
+      getBalances(addresses),
+      getUTXOPage({ addresses }, options),
+    ]);
+    const balancesByAddress = new Map(
+      balances.map((balance) => [balance.address, balance])
+    );
+
+    return res.json({
+      nextReceiveIndex: scan.nextReceiveIndex,
+      nextChangeIndex: scan.nextChangeIndex,
+      balance: sumBalances(balances),
+      addresses: scan.addresses.map((derived) => ({
+        ...derived,
+        ...toBalanceResponse(balancesByAddress.get(derived.address) || null),
+      })),
+      ...page,
+    });
+  } catch (error) {
+    if (error instanceof InvalidXpubError) {
+      res.status(400).json({ error: error.message });
       return;
     }
+    log.error("Error scanning xpub", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
 
-    const utxosResponse = utxos.map((utxo) => {
-      return {
-        value: utxo.value,
-        txid: utxo.id.split(":")[0],
-        vout: parseInt(utxo.id.split(":")[1]),
-        address: utxo.address,
-        blockHeight: utxo.blockHeight,
-        confirmed: utxo.confirmed, // Show if UTXO is confirmed or in mempool
-      };
+app.post("/api/coin-selection", async (req, res) => {
+  const {
+    addresses,
+    outputs,
+    fee = { type: "zip317" },
+    strategy = "largest-first",
+    changeAddress,
+    includeUnconfirmed = false,
+    reserve = false,
+    reserveSeconds = COIN_RESERVATION_SECONDS,
+  } = req.body || {};
+
+  if (
+    !Array.isArray(addresses) ||
+    addresses.length === 0 ||
+    addresses.length > MAX_QUERY_ADDRESSES ||
+    !addresses.every((address) => typeof address === "string")
+  ) {
+    res.status(400).json({
+      error: `addresses must be a list of 1 to ${MAX_QUERY_ADDRESSES} addresses`,
+    });
+    return;
+  }
+  if (
+    !Array.isArray(outputs) ||
+    outputs.length === 0 ||
+    !outputs.every(
+      (output) =>
+        typeof output?.address === "string" &&
+        isValidAddress(output.address) &&
+        Number.isInteger(output.value) &&
+        output.value > 0
+    )
+  ) {
+    res.status(400).json({
+      error:
+        "outputs must be a list of { address, value } with valid addresses and positive zatoshi values",
+    });
+    return;
+  }
+  if (
+    !(fee?.type === "zip317") &&
+    !(fee?.type === "fixed" && Number.isInteger(fee.amount) && fee.amount >= 0)
+  ) {
+    res.status(400).json({
+      error:
+        'fee must be { type: "zip317" } or { type: "fixed", amount } in zatoshis',
+    });
+    return;
+  }
+  if (!COIN_SELECTION_STRATEGIES.includes(strategy)) {
+    res.status(400).json({
+      error: `strategy must be one of ${COIN_SELECTION_STRATEGIES.join(", ")}`,
     });
+    return;
+  }
+  if (
+    changeAddress !== undefined &&
+    (typeof changeAddress !== "string" || !isValidAddress(changeAddress))
+  ) {
+    res.status(400).json({ error: "changeAddress is not a valid address" });
+    return;
+  }
+  if (
+    !Number.isInteger(reserveSeconds) ||
+    reserveSeconds < 1 ||
+    reserveSeconds > MAX_COIN_RESERVATION_SECONDS
+  ) {
+    res.status(400).json({
+      error: `reserveSeconds must be between 1 and ${MAX_COIN_RESERVATION_SECONDS}`,
+    });
+    return;
+  }
+
+  const target = outputs.reduce(
+    (total: number, output: { value: number }) => total + output.value,
+    0
+  );
 
-    return res.json(utxosResponse);
+  try {
+    const tipHeight = await getIndexedTipHeight();
+
+    for (let attempt = 1; ; attempt++) {
+      const utxos = await getSelectableUTXOs(
+        Array.from(new Set<string>(addresses)),
+        tipHeight,
+        includeUnconfirmed === true
+      );
+      const selection = selectCoins(
+        utxos,
+        target,
+        outputs.length,
+        fee as FeePolicy,
+        strategy as CoinSelectionStrategy
+      );
+
+      let reservation: { id: string; expiresAt: Date } | undefined;
+      if (reserve === true) {
+        reservation = {
+          id: randomBytes(12).toString("hex"),
+          expiresAt: new Date(Date.now() + reserveSeconds * 1000),
+        };
+        const reserved = await reserveUTXOs(
+          selection.inputs.map((utxo) => utxo.id),
+          reservation.id,
+          reservation.expiresAt
+        );
+        if (!reserved) {
+          if (attempt < COIN_RESERVATION_ATTEMPTS) continue;
+          res.status(409).json({
+            error: "Inputs were reserved by a concurrent request, try again",
+          });
+          return;
+        }
+      }
+
+      return res.json({
+        strategy,
+        inputs: selection.inputs.map((utxo) => toUTXOResponse(utxo, tipHeight)),
+        outputs: outputs.map((output: { address: string; value: number }) => ({
+          address: output.address,
+          value: output.value,
+        })),
+        fee: selection.fee,
+        change: selection.change,
+        changeAddress:
+          selection.change > 0 ? changeAddress || addresses[0] : null,
+        reservation: reservation || null,
+      });
+    }
   } catch (error) {
-    console.error("Error getting UTXOs:", error);
+    if (error instanceof InsufficientFundsError) {
+      res.status(422).json({
+        error: error.message,
+        available: error.available,
+        needed: error.needed,
+      });
+      return;
+    }
+    log.error("Error selecting coins", { error });
     res.status(500).json({ error: "Internal server error" });
     return;
   }
 });
 
-app.post("/api/send-transaction", async (req, res) => {
+app.delete("/api/coin-selection/:reservationId", async (req, res) => {
   try {
-    const { transaction } = req.body;
+    const released = await releaseReservation(req.params.reservationId);
+    if (released === 0) {
+      res.status(404).json({ error: "Reservation not found" });
+      return;
+    }
+    return res.json({ released });
+  } catch (error) {
+    log.error("Error releasing reservation", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+// Transaction history of an address, mempool transactions on top
+app.get("/api/txs/:address", async (req, res) => {
+  const { address } = req.params;
+  const limit = toInteger(req.query.limit) ?? MAX_TX_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TX_PAGE_SIZE) {
+    res
+      .status(400)
+      .json({ error: `limit must be between 1 and ${MAX_TX_PAGE_SIZE}` });
+    return;
+  }
+
+  let after: Pick<AddressTx, "confirmed" | "blockHeight" | "txid"> | undefined;
+  if (req.query.cursor !== undefined) {
+    try {
+      const { c, h, t } = JSON.parse(
+        Buffer.from(req.query.cursor as string, "base64url").toString()
+      );
+      if (
+        typeof c !== "boolean" ||
+        typeof h !== "number" ||
+        typeof t !== "string"
+      ) {
+        throw new Error("Malformed cursor");
+      }
+      after = { confirmed: c, blockHeight: h, txid: t };
+    } catch {
+      res.status(400).json({ error: "cursor is invalid" });
+      return;
+    }
+  }
+
+  try {
+    const [{ txs, total }, tipHeight] = await Promise.all([
+      getAddressTxs(address, limit, after),
+      getIndexedTipHeight(),
+    ]);
+    const last = txs[txs.length - 1];
+
+    return res.json({
+      total,
+      nextCursor:
+        txs.length === limit
+          ? Buffer.from(
+              JSON.stringify({
+                c: last.confirmed,
+                h: last.blockHeight,
+                t: last.txid,
+              })
+            ).toString("base64url")
+          : null,
+      txs: txs.map((tx) => ({
+        txid: tx.txid,
+        blockHeight: tx.blockHeight,
+        blockTime: tx.blockTime,
+        confirmed: tx.confirmed,
+        confirmations: tx.confirmed
+          ? Math.max(tipHeight - tx.blockHeight + 1, 0)
+          : 0,
+        received: tx.received,
+        sent: tx.sent,
+        delta: tx.delta,
+      })),
+    });
+  } catch (error) {
+    log.error("Error getting address transactions", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+// OP_RETURN payloads by hex prefix, when INDEX_OP_RETURN is enabled
+app.get("/api/op-returns", async (req, res) => {
+  const prefix = ((req.query.prefix as string) || "").toLowerCase();
+  const limit = Math.min(
+    parseInt(req.query.limit as string) || 100,
+    MAX_OP_RETURN_RESULTS
+  );
+
+  if (!/^[0-9a-f]{2,}$/.test(prefix)) {
+    res.status(400).json({ error: "prefix must be at least one byte of hex" });
+    return;
+  }
+
+  try {
+    const opReturns = await getOpReturns(prefix, limit);
+    return res.json(
+      opReturns.map((opReturn) => ({
+        txid: opReturn.id.split(":")[0],
+        vout: parseInt(opReturn.id.split(":")[1]),
+        blockHeight: opReturn.blockHeight,
+        value: opReturn.value,
+        payload: opReturn.payload,
+      }))
+    );
+  } catch (error) {
+    log.error("Error getting OP_RETURN payloads", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+// Full lifecycle of a single output, including who spent it
+app.get("/api/utxo/:txid/:vout", async (req, res) => {
+  const { txid, vout } = req.params;
+  try {
+    const utxo = await getUTXO(`${txid}:${parseInt(vout)}`);
+
+    if (!utxo) {
+      res.status(404).json({ error: "UTXO not found" });
+      return;
+    }
+
+    return res.json({
+      ...toUTXOResponse(utxo, await getIndexedTipHeight()),
+      status: utxo.status || "unspent",
+      spentTxid: utxo.spentTxid,
+      spentIndex: utxo.spentIndex,
+      spentHeight: utxo.spentHeight,
+    });
+  } catch (error) {
+    log.error("Error getting UTXO", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+app.get("/api/balance/:address", async (req, res) => {
+  const { address } = req.params;
+  try {
+    const balance = await getBalance(address);
+
+    return res.json({ address, ...toBalanceResponse(balance) });
+  } catch (error) {
+    log.error("Error getting balance", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+// Server-Sent Events stream of UTXO events for one or many addresses
+app.get("/api/events", (req, res) => {
+  const addresses = Array.from(
+    new Set(
+      String(req.query.addresses || "")
+        .split(",")
+        .map((address) => address.trim())
+        .filter((address) => address.length > 0)
+    )
+  );
+
+  if (addresses.length === 0) {
+    res.status(400).json({ error: "No addresses to subscribe to" });
+    return;
+  }
+  if (addresses.length > MAX_SUBSCRIPTION_ADDRESSES) {
+    res.status(400).json({
+      error: `Too many addresses, at most ${MAX_SUBSCRIPTION_ADDRESSES} per subscription`,
+    });
+    return;
+  }
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Keep nginx from buffering the stream
+  });
+  res.flushHeaders();
+
+  const unsubscribe = subscribeToAddresses(addresses, (event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+  eventStreams.add(res);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    eventStreams.delete(res);
+  });
+});
+
+app.post("/api/webhooks", async (req, res) => {
+  const { url, addresses, minConfirmations = 1, secret } = req.body || {};
+
+  let parsedUrl: URL | null = null;
+  try {
+    parsedUrl = new URL(url);
+  } catch {}
+  if (!parsedUrl || !["http:", "https:"].includes(parsedUrl.protocol)) {
+    res.status(400).json({ error: "url must be an http(s) URL" });
+    return;
+  }
+  if (
+    !Array.isArray(addresses) ||
+    addresses.length === 0 ||
+    addresses.length > MAX_WEBHOOK_ADDRESSES ||
+    !addresses.every((address) => typeof address === "string")
+  ) {
+    res.status(400).json({
+      error: `addresses must be a list of 1 to ${MAX_WEBHOOK_ADDRESSES} addresses`,
+    });
+    return;
+  }
+  if (!Number.isInteger(minConfirmations) || minConfirmations < 0) {
+    res
+      .status(400)
+      .json({ error: "minConfirmations must be a non-negative integer" });
+    return;
+  }
+  if (secret !== undefined && (typeof secret !== "string" || !secret)) {
+    res.status(400).json({ error: "secret must be a non-empty string" });
+    return;
+  }
+  const urlError = await checkWebhookUrl(parsedUrl);
+  if (urlError) {
+    res.status(400).json({ error: urlError });
+    return;
+  }
+
+  try {
+    const webhook: Webhook = {
+      id: randomBytes(12).toString("hex"),
+      url: parsedUrl.toString(),
+      addresses: Array.from(new Set<string>(addresses)),
+      minConfirmations,
+      secret: secret || generateWebhookSecret(),
+      apiKeyId: getClient(res).keyId ?? undefined,
+      createdAt: new Date(),
+    };
+    await saveWebhook({ ...webhook });
+
+    // The secret is only ever returned here, when we generated it
+    res.status(201).json({
+      ...toWebhookResponse(webhook),
+      secret: secret ? undefined : webhook.secret,
+    });
+  } catch (error) {
+    log.error("Error registering webhook", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+app.get("/api/webhooks/:id", async (req, res) => {
+  try {
+    const webhook = await getOwnWebhook(req.params.id, res);
+    if (!webhook) {
+      res.status(404).json({ error: "Webhook not found" });
+      return;
+    }
+    return res.json(toWebhookResponse(webhook));
+  } catch (error) {
+    log.error("Error getting webhook", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+app.delete("/api/webhooks/:id", async (req, res) => {
+  try {
+    if (
+      !(await getOwnWebhook(req.params.id, res)) ||
+      !(await deleteWebhook(req.params.id))
+    ) {
+      res.status(404).json({ error: "Webhook not found" });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    log.error("Error deleting webhook", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+// Most recent delivery attempts for a webhook
+app.get("/api/webhooks/:id/deliveries", async (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+  try {
+    const webhook = await getOwnWebhook(req.params.id, res);
+    if (!webhook) {
+      res.status(404).json({ error: "Webhook not found" });
+      return;
+    }
+    return res.json(await getWebhookDeliveryLog(webhook.id, limit));
+  } catch (error) {
+    log.error("Error getting webhook deliveries", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+// Reports of the UTXO set verification runs, newest first
+app.get("/api/verification", async (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  try {
+    return res.json(await getVerificationRuns(limit));
+  } catch (error) {
+    log.error("Error getting verification runs", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+// One run with the issues it found
+app.get("/api/verification/:id", async (req, res) => {
+  try {
+    const run = await getVerificationRun(req.params.id);
+    if (!run) {
+      res.status(404).json({ error: "Verification run not found" });
+      return;
+    }
+    return res.json(run);
+  } catch (error) {
+    log.error("Error getting verification run", { error });
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+});
+
+const requireBroadcast = requirePermission("broadcast");
+
+app.post("/api/send-transaction", requireBroadcast, async (req, res) => {
+  try {
+    const { transaction } = req.body || {};
+    const { txid, fee, txData } = await validateTransaction(transaction);
     const result = await sendTransaction(transaction);
-    res.json({ result });
+
+    // Track the spends right away instead of waiting for the mempool scan;
+    // the broadcast went through either way
+    try {
+      await processMempoolTransaction(txid, txData);
+    } catch (error) {
+      log.error("Error tracking broadcast transaction", {
+        txid,
+        error,
+      });
+    }
+
+    res.json({ result, txid, fee });
   } catch (error) {
-    console.error("Error sending transaction:", error);
+    if (error instanceof TransactionRejectedError) {
+      res
+        .status(error.statusCode)
+        .json({ error: error.message, ...error.details });
+      return;
+    }
+    if (error instanceof RpcNodeError) {
+      res.status(400).json({ error: error.message, code: error.code });
+      return;
+    }
+    log.error("Error sending transaction", { error });
+    if (error instanceof RpcTransportError) {
+      res.status(502).json({ error: "Node unreachable, try again later" });
+      return;
+    }
     res.status(500).json({ error: "faild to send raw transaction" });
     return;
   }
 });
 
-app.listen(3040, () => {
-  console.log("Server is running on port 3040");
-});
+// Listen on port 3040, returns the function that shuts the server down: no
+// new connections, requests in flight finish for up to timeoutMs, then the
+// remaining connections are closed
+export const startServer = () => {
+  const server = app.listen(3040, () => {
+    log.info("Server is running", { port: 3040 });
+  });
+  const stopUsageFlush = startUsageFlush();
+
+  return async (timeoutMs: number) => {
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => server.closeAllConnections(), timeoutMs);
+      server.close(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+      // Event streams never finish by themselves, clients reconnect elsewhere
+      eventStreams.forEach((res) => res.end());
+      server.closeIdleConnections();
+    });
+    // Count the last requests before the database connection goes
+    await stopUsageFlush();
+  };
+};
@@ -0,0 +1,238 @@
+import { createHash } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { rm } from "fs/promises";
+import { StringDecoder } from "string_decoder";
+import { pipeline } from "stream/promises";
+import { createGunzip, createGzip, gzipSync } from "zlib";
+import {
+  getIndexedBlock,
+  getIndexingCheckpoint,
+  getUTXOSetAt,
+  rebuildBalances,
+  saveIndexedBlock,
+  saveSnapshotUTXOs,
+  updateIndexingCheckpoint,
+} from "./db";
+import { createLogger } from "./logger";
+import { ZCASH_NETWORK } from "./network";
+import { getBlockHash } from "./rpc";
+import { UTXO } from "./types";
+
+const log = createLogger("snapshot");
+
+// A snapshot is gzipped NDJSON: a header line, then one UTXO per line in id
+// order. The header is its own gzip member in front of the body, since the
+// checksum is only known once the body is written.
+const SNAPSHOT_FORMAT = "zcash-utxo-snapshot";
+const SNAPSHOT_VERSION = 1;
+// UTXOs written to MongoDB at once while importing
+const IMPORT_BATCH_SIZE = 1000;
+
+export type SnapshotHeader = {
+  format: string;
+  version: number;
+  network: string;
+  height: number; // the UTXO set as it was once this block was applied
+  blockHash: string;
+  previousBlockHash: string;
+  count: number; // UTXO lines after the header
+  checksum: string; // SHA-256 of the uncompressed lines after the header, hex
+  createdAt: string;
+};
+
+export class InvalidSnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSnapshotError";
+  }
+}
+
+// Call onLine for every line of a gzipped NDJSON file, in order
+const readLines = async (
+  path: string,
+  onLine: (line: string, index: number) => Promise<void> | void
+) => {
+  await pipeline(
+    createReadStream(path),
+    createGunzip(),
+    async (source: AsyncIterable<Buffer>) => {
+      const decoder = new StringDecoder("utf8");
+      let rest = "";
+      let index = 0;
+      for await (const chunk of source) {
+        const lines = (rest + decoder.write(chunk)).split("\n");
+        rest = lines.pop()!;
+        for (const line of lines) await onLine(line, index++);
+      }
+      rest += decoder.end();
+      if (rest.length > 0) await onLine(rest, index);
+    }
+  );
+};
+
+// Write the UTXO set as of an indexed block to path. The export reads the
+// outputs as of that height, so the indexer may keep going meanwhile.
+export const exportSnapshot = async (path: string, height: number) => {
+  const block = await getIndexedBlock(height);
+  if (!block) throw new Error(`Block ${height} is not indexed`);
+
+  const bodyPath = `${path}.body`;
+  const hash = createHash("sha256");
+  let count = 0;
+
+  try {
+    await pipeline(
+      async function* () {
+        for await (const utxo of getUTXOSetAt(height)) {
+          const line = `${JSON.stringify(utxo)}\n`;
+          hash.update(line);
+          count++;
+          yield line;
+        }
+      },
+      createGzip(),
+      createWriteStream(bodyPath)
+    );
+
+    // A rollback below the height while reading leaves a mix of both chains
+    if ((await getIndexedBlock(height))?.hash !== block.hash) {
+      throw new Error(`Block ${height} was rolled back during the export`);
+    }
+
+    const header: SnapshotHeader = {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      network: ZCASH_NETWORK,
+      height,
+      blockHash: block.hash,
+      previousBlockHash: block.previousBlockHash,
+      count,
+      checksum: hash.digest("hex"),
+      createdAt: new Date().toISOString(),
+    };
+
+    const output = createWriteStream(path);
+    output.write(gzipSync(`${JSON.stringify(header)}\n`));
+    await pipeline(createReadStream(bodyPath), output);
+
+    return header;
+  } finally {
+    await rm(bodyPath, { force: true });
+  }
+};
+
+const parseHeader = (line: string) => {
+  let header: SnapshotHeader;
+  try {
+    header = JSON.parse(line);
+  } catch {
+    throw new InvalidSnapshotError("Snapshot header is not JSON");
+  }
+
+  if (header.format !== SNAPSHOT_FORMAT) {
+    throw new InvalidSnapshotError("Not a UTXO snapshot");
+  }
+  if (header.version !== SNAPSHOT_VERSION) {
+    throw new InvalidSnapshotError(
+      `Unsupported snapshot version ${header.version}`
+    );
+  }
+  if (header.network !== ZCASH_NETWORK) {
+    throw new InvalidSnapshotError(
+      `Snapshot is for ${header.network}, this indexer runs on ${ZCASH_NETWORK}`
+    );
+  }
+  return header;
+};
+
+// Read the whole snapshot once to check it against its header
+export const verifySnapshot = async (path: string) => {
+  let header: SnapshotHeader | null = null;
+  const hash = createHash("sha256");
+  let count = 0;
+
+  await readLines(path, (line, index) => {
+    if (index === 0) {
+      header = parseHeader(line);
+      return;
+    }
+    hash.update(`${line}\n`);
+    count++;
+  });
+
+  if (!header) throw new InvalidSnapshotError("Snapshot is empty");
+  const { checksum, count: expectedCount } = header as SnapshotHeader;
+  if (count !== expectedCount) {
+    throw new InvalidSnapshotError(
+      `Snapshot has ${count} UTXOs, its header says ${expectedCount}`
+    );
+  }
+  if (hash.digest("hex") !== checksum) {
+    throw new InvalidSnapshotError("Snapshot checksum mismatch");
+  }
+  return header as SnapshotHeader;
+};
+
+const parseUTXO = (line: string, index: number): UTXO => {
+  const utxo = JSON.parse(line);
+  if (typeof utxo?.id !== "string" || typeof utxo.value !== "number") {
+    throw new InvalidSnapshotError(`Line ${index + 1} is not a UTXO`);
+  }
+  return utxo;
+};
+
+// Load a verified snapshot into an empty database and point the checkpoint
+// right after it, so the indexer continues from the next block. Run it before
+// the indexer is started on that database.
+export const importSnapshot = async (path: string) => {
+  if ((await getIndexingCheckpoint()) !== 0) {
+    throw new Error("The database already has an index, use an empty one");
+  }
+
+  const header = await verifySnapshot(path);
+  log.info("Snapshot verified", {
+    blockHeight: header.height,
+    utxos: header.count,
+  });
+
+  // The node has to be on the same chain to continue from the snapshot
+  if ((await getBlockHash(header.height)) !== header.blockHash) {
+    throw new InvalidSnapshotError(
+      `Block ${header.height} of the snapshot is not on the node's chain`
+    );
+  }
+
+  let batch: UTXO[] = [];
+  let loaded = 0;
+  await readLines(path, async (line, index) => {
+    if (index === 0) return;
+    batch.push(parseUTXO(line, index));
+    if (batch.length < IMPORT_BATCH_SIZE) return;
+
+    await saveSnapshotUTXOs(batch);
+    loaded += batch.length;
+    batch = [];
+    if (loaded % (IMPORT_BATCH_SIZE * 100) === 0) {
+      log.info("Loading snapshot UTXOs", { loaded, total: header.count });
+    }
+  });
+  if (batch.length > 0) await saveSnapshotUTXOs(batch);
+
+  log.info("Counting address balances");
+  await rebuildBalances();
+
+  // Something started indexing into this database in the meantime
+  if ((await getIndexingCheckpoint()) !== 0) {
+    throw new Error(
+      "The indexer started while importing, use an empty database"
+    );
+  }
+  await saveIndexedBlock({
+    height: header.height,
+    hash: header.blockHash,
+    previousBlockHash: header.previousBlockHash,
+  });
+  await updateIndexingCheckpoint(header.height + 1, header.blockHash);
+
+  return header;
+};
@@ -1,7 +1,243 @@
+import type { UTXOEvent } from "./events";
+
+// "pending" means spent by a transaction that is still in the mempool
+export type SpendStatus = "unspent" | "pending" | "spent";
+
 export type UTXO = {
   value: number;
   id: string;
-  address: string;
+  address?: string; // only when the script pays exactly one address
+  addresses?: string[]; // every address the node decodes from the script
+  script?: string; // scriptPubKey hex
+  scriptType?: string; // pubkeyhash, scripthash, multisig, nonstandard, ...
+  scriptHash?: string; // reversed SHA-256 of the script, as in Electrum
   blockHeight: number;
   confirmed: boolean; // true for confirmed blocks, false for mempool
+  coinbase?: boolean; // only set on coinbase outputs, which need to mature
+  status?: SpendStatus; // documents written before spend tracking are unspent
+  spentTxid?: string;
+  spentIndex?: number; // input index within the spending transaction
+  spentHeight?: number; // 0 while the spending transaction is in the mempool
+};
+
+// Whose outputs a listing is about
+export type UTXOOwner = { addresses: string[] } | { scriptHash: string };
+
+// Filters, sort order and keyset position of a UTXO listing
+export type UTXOListOptions = {
+  sort: "value" | "height";
+  order: "asc" | "desc";
+  limit: number;
+  after?: { key: number; id: string }; // sort key and id of the last item seen
+  tipHeight: number; // for minConfirmations and spendableOnly
+  spendableOnly?: boolean;
+  minValue?: number;
+  maxValue?: number;
+  minConfirmations?: number;
+  confirmed?: boolean;
+  fromHeight?: number;
+  toHeight?: number;
+};
+
+// A transaction input spending a previously created UTXO
+export type UTXOSpend = {
+  id: string;
+  spentTxid: string;
+  spentIndex: number;
+};
+
+export type IndexedBlock = {
+  height: number;
+  hash: string;
+  previousBlockHash: string;
+  time?: number; // block timestamp, unix seconds; unset on older entries
+};
+
+export type IndexingCheckpoint = {
+  id: string;
+  blockHeight: number; // next block to index
+  blockHash?: string; // hash of the last fully applied block
+};
+
+// One transaction in an address's history; mempool transactions have
+// blockHeight 0 and no blockTime until they are mined
+export type AddressTx = {
+  address: string;
+  txid: string;
+  blockHeight: number;
+  blockTime: number | null;
+  confirmed: boolean;
+  received: number; // paid to the address by the transaction's outputs
+  sent: number; // spent from the address by the transaction's inputs
+  delta: number; // received - sent
+};
+
+// Data carried by an OP_RETURN output, indexed when INDEX_OP_RETURN is set
+export type OpReturn = {
+  id: string; // `${txid}:${vout}` like UTXOs
+  blockHeight: number;
+  value: number;
+  payload: string; // the pushed data, hex
+};
+
+// A fetched block reduced to what indexing it changes in the UTXO set
+export type ParsedBlock = IndexedBlock & {
+  time: number;
+  inputs: UTXOSpend[];
+  outputs: UTXO[];
+  opReturns: OpReturn[];
+};
+
+export type Webhook = {
+  id: string;
+  url: string;
+  addresses: string[];
+  minConfirmations: number; // 0 also delivers mempool events
+  secret: string; // HMAC-SHA256 key for the X-Webhook-Signature header
+  apiKeyId?: string; // the key that registered it, only that key manages it
+  createdAt: Date;
+};
+
+// cancelled: the block the event came from was reorganized away before the
+// event had enough confirmations
+export type WebhookDeliveryStatus =
+  | "pending"
+  | "delivered"
+  | "failed"
+  | "cancelled";
+
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  event: UTXOEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  requiredHeight: number; // tip height at which the event has enough confirmations
+  nextAttemptAt: Date;
+  createdAt: Date;
+  deliveredAt?: Date;
+  lastError?: string;
+};
+
+// Events of a write kept for the webhook dispatcher, saved with the write
+export type WebhookOutboxEntry = {
+  id: string;
+  events: UTXOEvent[];
+  createdAt: Date;
+};
+
+export type WebhookAttempt = {
+  deliveryId: string;
+  webhookId: string;
+  attempt: number;
+  attemptedAt: Date;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+};
+
+// Running totals per address, in zatoshis
+export type AddressBalance = {
+  address: string;
+  confirmed: number; // confirmed outputs not yet spent in a block
+  unconfirmedIncoming: number; // outputs of mempool transactions
+  unconfirmedOutgoing: number; // outputs spent by mempool transactions
+  utxoCount: number; // confirmed outputs not yet spent in a block
+  totalReceived: number;
+  totalSent: number;
+  firstSeenHeight?: number;
+  lastSeenHeight?: number;
+};
+
+// Outputs held back from coin selection until expiresAt
+export type UTXOReservation = {
+  id: string; // the reserved UTXO's id
+  reservationId: string;
+  expiresAt: Date;
+};
+
+// How an indexed output disagrees with the node:
+// - missing: the node has it, the index doesn't or has it as spent
+// - extra: the index has it unspent, the node doesn't
+// - mismatched: both have it with different values, scripts or heights
+export type VerificationIssueType = "missing" | "extra" | "mismatched";
+
+export type VerificationIssue = {
+  type: VerificationIssueType;
+  id: string; // the output's `${txid}:${vout}`
+  fields?: string[]; // what differs, for mismatched outputs
+  repaired: boolean;
+};
+
+// The indexed unspent outputs against the node's gettxoutsetinfo
+export type UTXOSetComparison = {
+  height: number;
+  node: { txouts: number; totalValue: number };
+  index: { txouts: number; totalValue: number };
+  // Only an index built from the first blocks holds the whole UTXO set
+  comparable: boolean;
+  matches: boolean | null;
+};
+
+export type VerificationRun = {
+  id: string;
+  mode: "sample" | "full";
+  repair: boolean;
+  status: "running" | "completed" | "failed";
+  startedAt: Date;
+  finishedAt?: Date;
+  tipHeight?: number;
+  tipHash?: string;
+  blockCount: number; // blocks whose outputs were checked
+  checkedCount: number; // outputs checked
+  counts: Record<VerificationIssueType | "repaired", number>;
+  issues: VerificationIssue[]; // the first MAX_REPORTED_ISSUES of them
+  utxoSet?: UTXOSetComparison;
+  consistent?: boolean;
+  error?: string;
+};
+
+// A role only one process may hold at a time, e.g. writing blocks
+export type LeaderLease = {
+  id: string;
+  holder: string; // the process holding it, see PROCESS_ID
+  expiresAt: Date;
+};
+
+// A UTXO event passed on to the other processes sharing the database
+export type BridgedEvent = {
+  origin: string; // the process that published it
+  event: UTXOEvent | null; // null for the marker keeping the collection tailable
+};
+
+// What an API key may do: request rate, daily quota and routes
+export type ApiPlan = {
+  id: string;
+  requestsPerMinute: number;
+  dailyQuota: number | null; // requests per UTC day, null for no quota
+  routes: string[]; // path prefixes such as /api/utxos, or "*" for every route
+};
+
+// Routes outside of plans: broadcasting, and the admin API
+export type ApiKeyPermission = "broadcast" | "admin";
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  keyHash: string; // SHA-256 of the key, hex; the key itself is not stored
+  prefix: string; // the key's first characters, to tell keys apart
+  planId: string;
+  permissions: ApiKeyPermission[];
+  active: boolean;
+  createdAt: Date;
+};
+
+// Requests made with a key on one UTC day; anonymous requests count under
+// keyId "anonymous"
+export type ApiUsage = {
+  keyId: string;
+  day: string; // YYYY-MM-DD
+  count: number; // requests served
+  rejected: number; // requests turned away by the daily quota
+  routes: Record<string, number>; // requests served by "<METHOD> <route>"
 };
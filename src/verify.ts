@@ -0,0 +1,375 @@
+import { randomBytes } from "crypto";
+import {
+  fetchBlock,
+  INDEXER_CONCURRENCY,
+  INDEXER_PREFETCH_DEPTH,
+} from "./blocks";
+import {
+  CheckpointMovedError,
+  getIndexedBlock,
+  getIndexingCheckpoint,
+  getLowestIndexedBlockHeight,
+  getUnspentTotals,
+  getUTXOsByIds,
+  repairUTXOs,
+  sampleUTXOIds,
+  saveVerificationRun,
+} from "./db";
+import type { Lease } from "./lease";
+import { createLogger } from "./logger";
+import { prefetchBlocks } from "./prefetch";
+import { getBestBlockHash, getTxOuts, getTxOutSetInfo } from "./rpc";
+import { parseScriptPubKey } from "./scripts";
+import {
+  ParsedBlock,
+  UTXO,
+  UTXOSetComparison,
+  VerificationIssue,
+  VerificationRun,
+} from "./types";
+
+const log = createLogger("verify");
+
+// How often a sampled verification runs on its own, never if 0
+const VERIFY_INTERVAL_MS = parseInt(process.env.VERIFY_INTERVAL_MS || "0");
+// Random indexed outputs, and random indexed blocks whose outputs are all
+// checked, in a sampled run
+const VERIFY_SAMPLE_SIZE = parseInt(process.env.VERIFY_SAMPLE_SIZE || "1000");
+const VERIFY_SAMPLE_BLOCKS = parseInt(process.env.VERIFY_SAMPLE_BLOCKS || "10");
+// Whether scheduled runs fix what they find
+const VERIFY_REPAIR = process.env.VERIFY_REPAIR === "true";
+// Outputs compared per gettxout batch
+const VERIFY_BATCH_SIZE = 100;
+// Issues kept in a run's report, the counts cover all of them
+const MAX_REPORTED_ISSUES = 1000;
+// How long to wait for the index and the node to agree on the tip
+const SYNC_ATTEMPTS = 30;
+const SYNC_DELAY_MS = 2000;
+// gettxoutsetinfo is slow, a new block during the call means another try
+const UTXO_SET_ATTEMPTS = 3;
+// A full run saves its progress every so many blocks
+const PROGRESS_BLOCKS = 100;
+
+export type VerificationOptions = {
+  full: boolean; // every output of every indexed block instead of samples
+  sampleSize: number;
+  sampleBlocks: number;
+  repair: boolean;
+};
+
+export const defaultVerificationOptions: VerificationOptions = {
+  full: false,
+  sampleSize: VERIFY_SAMPLE_SIZE,
+  sampleBlocks: VERIFY_SAMPLE_BLOCKS,
+  repair: false,
+};
+
+type Repairs = { replaced: UTXO[]; spent: string[] };
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// The index and the node are only compared while they agree on the tip
+const waitForSyncedTip = async () => {
+  for (let attempt = 1; ; attempt++) {
+    const tip = await getIndexedBlock((await getIndexingCheckpoint()) - 1);
+    if (tip && tip.hash === (await getBestBlockHash())) return tip;
+
+    if (attempt >= SYNC_ATTEMPTS) {
+      throw new Error("The index is not caught up with the node");
+    }
+    await sleep(SYNC_DELAY_MS);
+  }
+};
+
+// Whether neither chain moved since tip was read
+const isStillTip = async (tip: { height: number; hash: string }) =>
+  (await getIndexingCheckpoint()) === tip.height + 1 &&
+  (await getBestBlockHash()) === tip.hash;
+
+// An output as the node's gettxout reports it
+const fromTxOut = (id: string, txOut: any, tipHeight: number): UTXO => ({
+  value: txOut.valueZat ?? Math.round(txOut.value * 1e8),
+  id,
+  ...parseScriptPubKey(txOut.scriptPubKey),
+  blockHeight: tipHeight - txOut.confirmations + 1,
+  confirmed: true,
+  ...(txOut.coinbase && { coinbase: true }),
+  status: "unspent",
+});
+
+// The chain's version of an output, keeping the indexed spend
+const withSpend = (utxo: UTXO, indexed: UTXO): UTXO => ({
+  ...utxo,
+  status: indexed.status || "unspent",
+  ...(indexed.spentTxid !== undefined && {
+    spentTxid: indexed.spentTxid,
+    spentIndex: indexed.spentIndex,
+  }),
+  ...(indexed.spentHeight !== undefined && {
+    spentHeight: indexed.spentHeight,
+  }),
+});
+
+const getDifferences = (indexed: UTXO, expected: UTXO) => {
+  const fields = (["value", "script", "blockHeight"] as const).filter(
+    (field) => indexed[field] !== expected[field]
+  ) as string[];
+  if (!!indexed.coinbase !== !!expected.coinbase) fields.push("coinbase");
+  if (!indexed.confirmed) fields.push("confirmed");
+  return fields;
+};
+
+// Compare outputs with the node's UTXO set. expected holds the outputs as the
+// block that created them has them, when they came from a block.
+const compareOutputs = (
+  ids: string[],
+  indexed: Map<string, UTXO>,
+  txOuts: any[],
+  expected: Map<string, UTXO>,
+  tipHeight: number
+) => {
+  const issues: VerificationIssue[] = [];
+  const repairs: Repairs = { replaced: [], spent: [] };
+
+  ids.forEach((id, index) => {
+    const utxo = indexed.get(id);
+    const txOut = txOuts[index];
+    // The chain's version of the output, if we know it
+    const onChain = txOut ? fromTxOut(id, txOut, tipHeight) : expected.get(id);
+    if (!onChain && !utxo) return;
+
+    // Unspent on the node, or created by an indexed block, but not indexed or
+    // indexed as spent
+    if (!utxo || (txOut && utxo.status === "spent")) {
+      issues.push({ type: "missing", id, repaired: false });
+      // Spent by a block we can't tell without the spending transaction, at
+      // the tip at the latest
+      repairs.replaced.push(
+        txOut
+          ? onChain!
+          : { ...onChain!, status: "spent", spentHeight: tipHeight }
+      );
+      return;
+    }
+
+    if (utxo.status !== "spent") {
+      // Mempool outputs aren't in the node's UTXO set yet
+      if (!utxo.confirmed && !expected.has(id)) return;
+
+      if (!txOut) {
+        issues.push({ type: "extra", id, repaired: false });
+        repairs.spent.push(id);
+        return;
+      }
+    }
+
+    if (!onChain) return;
+    const fields = getDifferences(utxo, onChain);
+    if (fields.length > 0) {
+      issues.push({ type: "mismatched", id, fields, repaired: false });
+      repairs.replaced.push(withSpend(onChain, utxo));
+    }
+  });
+
+  return { issues, repairs };
+};
+
+// Read a batch from the index and the node while neither moves, so both sides
+// describe the same tip. Repairs are applied at that tip too: when the indexer
+// moves on before they are, the batch is read again.
+const checkOutputs = async (
+  ids: string[],
+  expected: Map<string, UTXO>,
+  repair: boolean
+) => {
+  for (let attempt = 1; attempt <= SYNC_ATTEMPTS; attempt++) {
+    const tip = await waitForSyncedTip();
+    const [indexed, txOuts] = await Promise.all([
+      getUTXOsByIds(ids),
+      getTxOuts(ids),
+    ]);
+    if (!(await isStillTip(tip))) continue;
+
+    const { issues, repairs } = compareOutputs(
+      ids,
+      new Map(indexed.map((utxo) => [utxo.id, utxo])),
+      txOuts,
+      expected,
+      tip.height
+    );
+    if (repair && issues.length > 0) {
+      try {
+        await repairUTXOs(repairs, tip.height + 1);
+      } catch (error) {
+        if (error instanceof CheckpointMovedError) continue;
+        throw error;
+      }
+      issues.forEach((issue) => (issue.repaired = true));
+    }
+    return issues;
+  }
+  throw new Error("The chain kept moving while verifying");
+};
+
+// The indexed unspent outputs against gettxoutsetinfo, null if the chain
+// moved on before both sides could be read at the same tip
+const compareUTXOSet = async (
+  lowestHeight: number
+): Promise<UTXOSetComparison | null> => {
+  for (let attempt = 1; attempt <= UTXO_SET_ATTEMPTS; attempt++) {
+    const tip = await waitForSyncedTip();
+    const info = await getTxOutSetInfo();
+    const totals = await getUnspentTotals();
+    if (info.bestblock !== tip.hash || !(await isStillTip(tip))) continue;
+
+    const node = {
+      txouts: info.txouts,
+      totalValue: Math.round(info.total_amount * 1e8),
+    };
+    const index = { txouts: totals.count, totalValue: totals.value };
+    const comparable = lowestHeight <= 1;
+    return {
+      height: info.height,
+      node,
+      index,
+      comparable,
+      matches: comparable
+        ? node.txouts === index.txouts && node.totalValue === index.totalValue
+        : null,
+    };
+  }
+  return null;
+};
+
+// Every indexed block for a full run, a random sample of them otherwise
+const getBlocksToVerify = (
+  options: VerificationOptions,
+  lowestHeight: number,
+  tipHeight: number
+): AsyncIterable<ParsedBlock> => {
+  if (options.full) {
+    return prefetchBlocks(lowestHeight, tipHeight + 1, fetchBlock, {
+      concurrency: INDEXER_CONCURRENCY,
+      depth: INDEXER_PREFETCH_DEPTH,
+    });
+  }
+
+  const heights = new Set<number>();
+  const range = tipHeight - lowestHeight + 1;
+  while (heights.size < Math.min(options.sampleBlocks, range)) {
+    heights.add(lowestHeight + Math.floor(Math.random() * range));
+  }
+  return (async function* () {
+    for (const height of heights) yield await fetchBlock(height);
+  })();
+};
+
+// Check indexed outputs against the node's UTXO set with gettxout, and the
+// totals against gettxoutsetinfo. Progress and the report are saved in
+// verification_runs; with repair, every issue found is fixed from the node.
+export const runVerification = async (options: VerificationOptions) => {
+  const run: VerificationRun = {
+    id: randomBytes(8).toString("hex"),
+    mode: options.full ? "full" : "sample",
+    repair: options.repair,
+    status: "running",
+    startedAt: new Date(),
+    blockCount: 0,
+    checkedCount: 0,
+    counts: { missing: 0, extra: 0, mismatched: 0, repaired: 0 },
+    issues: [],
+  };
+  await saveVerificationRun(run);
+  log.info("Verification started", { runId: run.id, mode: run.mode });
+
+  const check = async (ids: string[], expected = new Map<string, UTXO>()) => {
+    for (let start = 0; start < ids.length; start += VERIFY_BATCH_SIZE) {
+      const batch = ids.slice(start, start + VERIFY_BATCH_SIZE);
+      const issues = await checkOutputs(batch, expected, options.repair);
+
+      run.checkedCount += batch.length;
+      for (const issue of issues) {
+        run.counts[issue.type]++;
+        if (issue.repaired) run.counts.repaired++;
+        if (run.issues.length < MAX_REPORTED_ISSUES) run.issues.push(issue);
+      }
+    }
+  };
+
+  try {
+    const tip = await waitForSyncedTip();
+    run.tipHeight = tip.height;
+    run.tipHash = tip.hash;
+    const lowestHeight = (await getLowestIndexedBlockHeight()) ?? tip.height;
+
+    for await (const block of getBlocksToVerify(
+      options,
+      lowestHeight,
+      tip.height
+    )) {
+      // Reorganized away since the run started, the indexer redoes it
+      if ((await getIndexedBlock(block.height))?.hash !== block.hash) continue;
+
+      await check(
+        block.outputs.map((output) => output.id),
+        new Map(block.outputs.map((output) => [output.id, output]))
+      );
+      run.blockCount++;
+      if (run.blockCount % PROGRESS_BLOCKS === 0) {
+        await saveVerificationRun(run);
+      }
+    }
+
+    // Outputs from anywhere in the index, a full run has seen them all
+    if (!options.full) await check(await sampleUTXOIds(options.sampleSize));
+
+    run.utxoSet = (await compareUTXOSet(lowestHeight)) ?? undefined;
+    run.consistent =
+      run.counts.missing + run.counts.extra + run.counts.mismatched === 0 &&
+      run.utxoSet?.matches !== false;
+    run.status = "completed";
+  } catch (error) {
+    run.status = "failed";
+    run.error = (error as Error).message;
+  }
+
+  run.finishedAt = new Date();
+  await saveVerificationRun(run);
+  const summary = {
+    runId: run.id,
+    checked: run.checkedCount,
+    blocks: run.blockCount,
+    ...run.counts,
+    ...(run.error && { error: run.error }),
+  };
+  if (run.status === "failed") {
+    log.error("Verification failed", summary);
+  } else if (!run.consistent) {
+    log.warn("Verification found inconsistencies", summary);
+  } else {
+    log.info("Verification completed", summary);
+  }
+
+  return run;
+};
+
+// Run a sampled verification every VERIFY_INTERVAL_MS, if set, for as long
+// as the lease is held
+export const startVerificationSchedule = async (lease: Lease) => {
+  if (VERIFY_INTERVAL_MS <= 0) return;
+  log.info("Verification scheduled", { intervalMs: VERIFY_INTERVAL_MS });
+
+  while (true) {
+    await lease.sleep(VERIFY_INTERVAL_MS);
+    if (!lease.active) return;
+    try {
+      await runVerification({
+        ...defaultVerificationOptions,
+        repair: VERIFY_REPAIR,
+      });
+    } catch (error) {
+      log.error("Error running verification", { error });
+    }
+  }
+};
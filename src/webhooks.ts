@@ -0,0 +1,398 @@
+import axios from "axios";
+import { createHash, createHmac, randomBytes } from "crypto";
+import { lookup, LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+import {
+  cancelWebhookDeliveries,
+  deleteWebhookOutbox,
+  getDueWebhookDeliveries,
+  getUTXOsByIds,
+  getWebhookOutbox,
+  getWebhooksByIds,
+  getWebhooksForAddresses,
+  recordWebhookAttempt,
+  saveWebhookDeliveries,
+} from "./db";
+import { getTipHeight, UTXOEvent } from "./events";
+import type { Lease } from "./lease";
+import { createLogger } from "./logger";
+import { UTXO, Webhook, WebhookDelivery, WebhookOutboxEntry } from "./types";
+
+const log = createLogger("webhooks");
+
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000");
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "10");
+const WEBHOOK_RETRY_BASE_MS = parseInt(
+  process.env.WEBHOOK_RETRY_BASE_MS || "5000"
+);
+const WEBHOOK_RETRY_MAX_MS = parseInt(
+  process.env.WEBHOOK_RETRY_MAX_MS || String(60 * 60 * 1000)
+);
+// How often the delivery queue is checked for due deliveries
+const WEBHOOK_POLL_INTERVAL_MS = parseInt(
+  process.env.WEBHOOK_POLL_INTERVAL_MS || "1000"
+);
+const WEBHOOK_BATCH_SIZE = 50;
+// Webhooks can only point at public addresses unless this is true, e.g. for
+// receivers on the same private network
+const WEBHOOK_ALLOW_PRIVATE_URLS =
+  process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+
+// Loopback, private, link-local (incl. cloud metadata endpoints), CGNAT,
+// multicast and reserved ranges; IPv4-mapped IPv6 addresses match the IPv4
+// ones
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const isPrivateAddress = (address: string) =>
+  privateAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+
+// IPv6 hosts keep their brackets in URL.hostname
+const getHostname = (url: URL) => url.hostname.replace(/^\[(.*)\]$/, "$1");
+
+const resolveAddresses = (hostname: string) =>
+  new Promise<LookupAddress[]>((resolve, reject) =>
+    lookup(hostname, { all: true }, (error, addresses) =>
+      error ? reject(error) : resolve(addresses)
+    )
+  );
+
+// Why a webhook can't be registered with this URL, if it can't: its host
+// has to resolve, and only to public addresses
+export const checkWebhookUrl = async (url: URL) => {
+  if (WEBHOOK_ALLOW_PRIVATE_URLS) return null;
+
+  const hostname = getHostname(url);
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await resolveAddresses(hostname)).map(
+        ({ address }) => address
+      );
+    } catch {
+      return `url host ${hostname} can't be resolved`;
+    }
+  }
+  return addresses.some(isPrivateAddress)
+    ? "url must point to a public address"
+    : null;
+};
+
+// Resolves hosts for deliveries and refuses private addresses, so a host
+// re-pointed after registration can't reach them either. Hosts that are
+// IP addresses aren't looked up, deliver checks those
+const publicLookup: LookupFunction = (hostname, options, callback) =>
+  lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+
+    const addresses = Array.isArray(address)
+      ? address.map((entry) => entry.address)
+      : [address];
+    const blocked = addresses.find(isPrivateAddress);
+    if (blocked) {
+      return callback(
+        Object.assign(
+          new Error(`${hostname} resolves to private address ${blocked}`),
+          { code: "EPRIVATEADDRESS" }
+        ),
+        address,
+        family
+      );
+    }
+    callback(null, address, family);
+  });
+
+const httpAgent = new http.Agent(
+  WEBHOOK_ALLOW_PRIVATE_URLS ? {} : { lookup: publicLookup }
+);
+const httpsAgent = new https.Agent(
+  WEBHOOK_ALLOW_PRIVATE_URLS ? {} : { lookup: publicLookup }
+);
+
+export const generateWebhookSecret = () => randomBytes(32).toString("hex");
+
+// Receivers verify X-Webhook-Signature by computing the same HMAC over
+// "<X-Webhook-Timestamp>.<raw body>" with their secret
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string
+) =>
+  `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+
+// Events from the mempool only go to webhooks that accept 0 confirmations;
+// block events wait until they are buried minConfirmations deep
+const getRequiredHeight = (webhook: Webhook, event: UTXOEvent) => {
+  const fromMempool =
+    event.type === "spent" ? event.status === "pending" : !event.confirmed;
+
+  if (fromMempool) return webhook.minConfirmations === 0 ? 0 : null;
+
+  // Reorgs undoing outputs and spends are reported right away
+  if (event.type === "unspent" || event.type === "removed") return 0;
+
+  const height =
+    event.type === "spent" ? event.spentHeight! : event.blockHeight;
+  return height + Math.max(webhook.minConfirmations, 1) - 1;
+};
+
+// The same event and webhook always get the same delivery id, so queueing an
+// outbox entry again doesn't deliver twice
+const getDeliveryId = (entryId: string, index: number, webhookId: string) =>
+  createHash("sha256")
+    .update(`${entryId}:${index}:${webhookId}`)
+    .digest("hex")
+    .slice(0, 32);
+
+const queueDeliveries = async (entry: WebhookOutboxEntry) => {
+  const addresses = Array.from(
+    new Set(
+      entry.events.flatMap((event) => (event.address ? [event.address] : []))
+    )
+  );
+  const webhooks = await getWebhooksForAddresses(addresses);
+  if (webhooks.length === 0) return;
+
+  const now = new Date();
+  const deliveries: WebhookDelivery[] = [];
+  entry.events.forEach((event, index) => {
+    for (const webhook of webhooks) {
+      if (!event.address || !webhook.addresses.includes(event.address)) {
+        continue;
+      }
+
+      const requiredHeight = getRequiredHeight(webhook, event);
+      if (requiredHeight === null) continue;
+
+      deliveries.push({
+        id: getDeliveryId(entry.id, index, webhook.id),
+        webhookId: webhook.id,
+        event,
+        status: "pending",
+        attempts: 0,
+        requiredHeight,
+        nextAttemptAt: now,
+        createdAt: now,
+      });
+    }
+  });
+
+  await saveWebhookDeliveries(deliveries);
+};
+
+// Turn the events saved with each write into persisted deliveries. Entries
+// are removed once their deliveries are saved, so nothing is lost if this
+// process goes down in between.
+const queueOutbox = async () => {
+  while (true) {
+    const entries = await getWebhookOutbox(WEBHOOK_BATCH_SIZE);
+    for (const entry of entries) await queueDeliveries(entry);
+    if (entries.length > 0) {
+      await deleteWebhookOutbox(entries.map((entry) => entry.id));
+    }
+    if (entries.length < WEBHOOK_BATCH_SIZE) return;
+  }
+};
+
+const deliver = async (delivery: WebhookDelivery, webhook: Webhook) => {
+  const tipHeight = getTipHeight();
+  const height =
+    delivery.event.type === "spent" && delivery.event.status === "spent"
+      ? delivery.event.spentHeight!
+      : delivery.event.blockHeight;
+  const body = JSON.stringify({
+    deliveryId: delivery.id,
+    webhookId: webhook.id,
+    confirmations: height > 0 ? Math.max(tipHeight - height + 1, 0) : 0,
+    event: delivery.event,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const attempt = delivery.attempts + 1;
+  const startedAt = Date.now();
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const hostname = getHostname(new URL(webhook.url));
+    if (
+      !WEBHOOK_ALLOW_PRIVATE_URLS &&
+      isIP(hostname) &&
+      isPrivateAddress(hostname)
+    ) {
+      throw new Error(`${hostname} is a private address`);
+    }
+    const response = await axios.post(webhook.url, body, {
+      timeout: WEBHOOK_TIMEOUT_MS,
+      httpAgent,
+      httpsAgent,
+      // A redirect could lead anywhere, including private addresses
+      maxRedirects: 0,
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": webhook.id,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          body
+        ),
+      },
+      validateStatus: () => true,
+    });
+    statusCode = response.status;
+    if (statusCode < 200 || statusCode >= 300) error = `HTTP ${statusCode}`;
+  } catch (requestError) {
+    error = (requestError as Error).message;
+  }
+
+  const delay = Math.min(
+    WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 1),
+    WEBHOOK_RETRY_MAX_MS
+  );
+  await recordWebhookAttempt(
+    {
+      deliveryId: delivery.id,
+      webhookId: webhook.id,
+      attempt,
+      attemptedAt: new Date(startedAt),
+      durationMs: Date.now() - startedAt,
+      statusCode,
+      error,
+    },
+    error
+      ? {
+          attempts: attempt,
+          lastError: error,
+          status: attempt >= WEBHOOK_MAX_ATTEMPTS ? "failed" : "pending",
+          nextAttemptAt: new Date(Date.now() + delay),
+        }
+      : { attempts: attempt, status: "delivered", deliveredAt: new Date() }
+  );
+};
+
+// Outputs created or confirmed by a block and spends by a block; reorg
+// events are never undone
+const isBlockEvent = (event: UTXOEvent) => {
+  if (event.type === "spent") return event.status === "spent";
+  return (
+    (event.type === "created" || event.type === "confirmed") && event.confirmed
+  );
+};
+
+// Whether the output or spend a block event reports is still indexed at the
+// same height, i.e. the block wasn't reorganized away meanwhile
+const isStillIndexed = (event: UTXOEvent, utxo: UTXO | undefined) => {
+  if (!utxo) return false;
+  if (event.type === "spent") {
+    return (
+      utxo.status === "spent" &&
+      utxo.spentTxid === event.spentTxid &&
+      utxo.spentHeight === event.spentHeight
+    );
+  }
+  return utxo.confirmed && utxo.blockHeight === event.blockHeight;
+};
+
+// Deliveries of block events that were reorganized away, which would
+// otherwise go out once the new chain reaches their required height
+const findStaleDeliveries = async (deliveries: WebhookDelivery[]) => {
+  const blockDeliveries = deliveries.filter(({ event }) => isBlockEvent(event));
+  if (blockDeliveries.length === 0) return new Set<string>();
+
+  const utxos = new Map(
+    (
+      await getUTXOsByIds(
+        blockDeliveries.map(({ event }) => `${event.txid}:${event.vout}`)
+      )
+    ).map((utxo) => [utxo.id, utxo])
+  );
+  return new Set(
+    blockDeliveries
+      .filter(
+        ({ event }) =>
+          !isStillIndexed(event, utxos.get(`${event.txid}:${event.vout}`))
+      )
+      .map((delivery) => delivery.id)
+  );
+};
+
+const dispatchDueDeliveries = async () => {
+  const due = await getDueWebhookDeliveries(getTipHeight(), WEBHOOK_BATCH_SIZE);
+  if (due.length === 0) return;
+
+  const stale = await findStaleDeliveries(due);
+  await cancelWebhookDeliveries(Array.from(stale));
+  const deliveries = due.filter((delivery) => !stale.has(delivery.id));
+  if (deliveries.length === 0) return;
+
+  const webhooks = new Map<string, Webhook>(
+    (
+      await getWebhooksByIds(
+        Array.from(new Set(deliveries.map((delivery) => delivery.webhookId)))
+      )
+    ).map((webhook) => [webhook.id, webhook])
+  );
+
+  await Promise.all(
+    deliveries.map(async (delivery) => {
+      const webhook = webhooks.get(delivery.webhookId);
+      // Deleted webhooks drop their pending deliveries, nothing to send
+      if (!webhook) return;
+      await deliver(delivery, webhook);
+    })
+  );
+};
+
+// Queue deliveries for the UTXO events in the outbox and send them from the
+// persisted queue, retrying failures with exponential backoff, for as long as
+// the lease is held
+export const startWebhookDispatcher = async (lease: Lease) => {
+  log.info("Webhook dispatcher started");
+
+  while (lease.active) {
+    try {
+      await queueOutbox();
+    } catch (error) {
+      log.error("Error queueing webhook deliveries, retrying", { error });
+    }
+    try {
+      await dispatchDueDeliveries();
+    } catch (error) {
+      log.error("Error dispatching webhook deliveries", { error });
+    }
+    await lease.sleep(WEBHOOK_POLL_INTERVAL_MS);
+  }
+
+  log.info("Webhook dispatcher stopped");
+};
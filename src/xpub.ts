@@ -0,0 +1,119 @@
+import { address, bip32, BIP32Interface, payments } from "@bitgo/utxo-lib";
+import { getUsedAddresses } from "./db";
+import { network } from "./network";
+
+// Addresses derived past the last used one before a chain counts as scanned
+export const XPUB_GAP_LIMIT = parseInt(process.env.XPUB_GAP_LIMIT || "20");
+export const MAX_XPUB_GAP_LIMIT = parseInt(
+  process.env.MAX_XPUB_GAP_LIMIT || "100"
+);
+// Upper bound on the addresses derived per chain, used or not
+const MAX_XPUB_ADDRESSES = parseInt(process.env.MAX_XPUB_ADDRESSES || "1000");
+
+// BIP44 chains below the account key
+const CHAINS = { receive: 0, change: 1 };
+
+export type DerivedAddress = {
+  address: string;
+  chain: number;
+  index: number;
+  path: string; // relative to the extended public key
+};
+
+export type XpubScan = {
+  addresses: DerivedAddress[]; // used addresses only
+  nextReceiveIndex: number;
+  nextChangeIndex: number;
+};
+
+export class InvalidXpubError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidXpubError";
+  }
+}
+
+// Account-level extended public key, e.g. m/44'/133'/0'
+export const parseXpub = (xpub: string) => {
+  let node: BIP32Interface;
+  try {
+    node = bip32.fromBase58(xpub);
+  } catch (error) {
+    throw new InvalidXpubError(
+      `Invalid extended public key: ${(error as Error).message}`
+    );
+  }
+  // Never accept (and log) a private key by mistake
+  if (!node.isNeutered()) {
+    throw new InvalidXpubError(
+      "Expected an extended public key, not a private one"
+    );
+  }
+  return node;
+};
+
+const deriveAddresses = (
+  chainNode: BIP32Interface,
+  chain: number,
+  fromIndex: number,
+  toIndex: number
+) => {
+  const derived: DerivedAddress[] = [];
+  for (let index = fromIndex; index < toIndex; index++) {
+    const { output } = payments.p2pkh({
+      pubkey: chainNode.derive(index).publicKey,
+    });
+    derived.push({
+      address: address.fromOutputScript(output!, network),
+      chain,
+      index,
+      path: `${chain}/${index}`,
+    });
+  }
+  return derived;
+};
+
+// Derive a chain until gapLimit addresses in a row have no history
+const scanChain = async (
+  node: BIP32Interface,
+  chain: number,
+  gapLimit: number
+) => {
+  const chainNode = node.derive(chain);
+  const used: DerivedAddress[] = [];
+  let derivedCount = 0;
+  let nextIndex = 0;
+
+  while (derivedCount < Math.min(nextIndex + gapLimit, MAX_XPUB_ADDRESSES)) {
+    const toIndex = Math.min(nextIndex + gapLimit, MAX_XPUB_ADDRESSES);
+    const batch = deriveAddresses(chainNode, chain, derivedCount, toIndex);
+    derivedCount = toIndex;
+
+    const usedAddresses = new Set(
+      await getUsedAddresses(batch.map((derived) => derived.address))
+    );
+    for (const derived of batch) {
+      if (!usedAddresses.has(derived.address)) continue;
+      used.push(derived);
+      nextIndex = derived.index + 1;
+    }
+  }
+
+  return { used, nextIndex };
+};
+
+export const scanXpub = async (
+  node: BIP32Interface,
+  gapLimit: number
+): Promise<XpubScan> => {
+  const [receive, change] = await Promise.all([
+    scanChain(node, CHAINS.receive, gapLimit),
+    scanChain(node, CHAINS.change, gapLimit),
+  ]);
+
+  return {
+    addresses: [...receive.used, ...change.used],
+    nextReceiveIndex: receive.nextIndex,
+    nextChangeIndex: change.nextIndex,
+  };
+};
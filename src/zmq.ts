@@ -0,0 +1,48 @@
+import { Subscriber } from "zeromq";
+import { createLogger } from "./logger";
+
+const log = createLogger("zmq");
+
+export type NotificationHandlers = {
+  onHashBlock: (blockHash: string) => void;
+  onRawTx: (rawTx: Buffer) => void;
+  // A notification was lost (sequence gap), callers should reconcile by polling
+  onMissed: (topic: string) => void;
+};
+
+// Subscribe to zcashd's -zmqpubhashblock and -zmqpubrawtx notifications.
+// zeromq reconnects on its own; whatever is missed meanwhile is picked up by
+// the polling loops, which keep running as the fallback.
+export const subscribeToNode = async (
+  urls: string[],
+  handlers: NotificationHandlers
+) => {
+  const subscriber = new Subscriber();
+  urls.forEach((url) => subscriber.connect(url));
+  subscriber.subscribe("hashblock", "rawtx");
+  log.info("Subscribed to ZMQ notifications", { urls });
+
+  const lastSequence = new Map<string, number>();
+
+  for await (const [topicFrame, body, sequenceFrame] of subscriber) {
+    const topic = topicFrame.toString();
+
+    // zcashd numbers every message per topic, a gap means we dropped some
+    if (sequenceFrame?.length === 4) {
+      const sequence = sequenceFrame.readUInt32LE(0);
+      const previous = lastSequence.get(topic);
+      if (previous !== undefined && sequence !== (previous + 1) >>> 0) {
+        log.warn("Missed ZMQ notifications", { topic, previous, sequence });
+        handlers.onMissed(topic);
+      }
+      lastSequence.set(topic, sequence);
+    }
+
+    try {
+      if (topic === "hashblock") handlers.onHashBlock(body.toString("hex"));
+      if (topic === "rawtx") handlers.onRawTx(body);
+    } catch (error) {
+      log.error("Error handling ZMQ notification", { topic, error });
+    }
+  }
+};